@@ -6,3 +6,4 @@ mkdir -p dist/generator/templates
 cp src/config.json5 dist/
 cp src/generator/config/*.json5 dist/generator/config/
 cp src/generator/templates/*.njk dist/generator/templates/
+cp src/generator/templates/*.csproj dist/generator/templates/
@@ -118,4 +118,21 @@ C_{N,1} C_{N,2} ... C_{N,N}`;
       }
     }
   });
+
+  it("should detect grids from nested loops over a 2D item", () => {
+    const input = `S_{0,0}S_{0,1}...S_{0,W-1}
+...
+S_{H-1,0}S_{H-1,1}...S_{H-1,W-1}`;
+    const analyzer = new Analyzer();
+    const result = analyzer.detectGrids(analyzer.analyze(parse(input)));
+
+    expect(result.children).toEqual([
+      {
+        type: "grid",
+        name: "S",
+        rows: { type: "item", name: "H", indices: [] },
+        cols: { type: "item", name: "W", indices: [] },
+      },
+    ]);
+  });
 });
@@ -1,4 +1,32 @@
-import { FormatNode, ItemNode, ASTNode, LoopNode, BinOpNode, NumberNode } from "./types";
+import { FormatNode, ItemNode, ASTNode, LoopNode, BinOpNode, NumberNode, GridNode } from "./types";
+
+/**
+ * Number of iterations of a loop over [start, end], e.g. N for 1..N and 0..N-1, and N - 1 for 2..N
+ */
+export function loopLength(loop: LoopNode): ASTNode {
+  if (loop.start.type !== "number") {
+    const span: BinOpNode = { type: "binop", op: "-", left: loop.end, right: loop.start };
+    return { type: "binop", op: "+", left: span, right: { type: "number", value: 1 } as NumberNode } as BinOpNode;
+  }
+  // end + shift, folding the shift into a constant term of the end
+  let base = loop.end;
+  let shift = 1 - (loop.start as NumberNode).value;
+  if (shift === 0) return base;
+  if (base.type === "binop") {
+    const end = base as BinOpNode;
+    if ((end.op === "-" || end.op === "+") && end.right.type === "number") {
+      base = end.left;
+      shift += end.op === "-" ? -(end.right as NumberNode).value : (end.right as NumberNode).value;
+    }
+  }
+  if (shift === 0) return base;
+  return {
+    type: "binop",
+    op: shift < 0 ? "-" : "+",
+    left: base,
+    right: { type: "number", value: Math.abs(shift) } as NumberNode,
+  } as BinOpNode;
+}
 
 export class Analyzer {
   public analyze(root: FormatNode): FormatNode {
@@ -12,6 +40,39 @@ export class Analyzer {
     return { ...root, children: current };
   }
 
+  /**
+   * Replace the nested loops over a single 2D item (for i: for j: S_{i,j}) with grid nodes. Whether the rows are
+   * written without spaces is only known from the samples, so this is tried when the format does not match them.
+   */
+  public detectGrids(root: FormatNode): FormatNode {
+    const convert = (nodes: ASTNode[]): ASTNode[] =>
+      nodes.map((node) => {
+        if (node.type !== "loop") return node;
+        const loop = node as LoopNode;
+        return this.toGrid(loop) ?? { ...loop, body: convert(loop.body) };
+      });
+    return { ...root, children: convert(root.children) };
+  }
+
+  private toGrid(outer: LoopNode): GridNode | null {
+    if (outer.body.length !== 1 || outer.body[0].type !== "loop") return null;
+    const inner = outer.body[0] as LoopNode;
+    if (inner.body.length !== 1 || inner.body[0].type !== "item") return null;
+
+    const item = inner.body[0] as ItemNode;
+    const isLoopVar = (index: ASTNode, variable: string): boolean =>
+      index.type === "item" && (index as ItemNode).name === variable && (index as ItemNode).indices.length === 0;
+    if (
+      item.indices.length !== 2 ||
+      !isLoopVar(item.indices[0], outer.variable) ||
+      !isLoopVar(item.indices[1], inner.variable)
+    ) {
+      return null;
+    }
+
+    return { type: "grid", name: item.name, rows: loopLength(outer), cols: loopLength(inner) };
+  }
+
   private normalize(nodes: ASTNode[]): ASTNode[] {
     // Recursively normalize all children first
     const normalizedNodes = nodes.map((node) => {
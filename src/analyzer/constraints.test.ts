@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { parseConstraints, evaluateBound, fitsInInt32, findIndexVariables } from "./constraints";
+
+describe("parseConstraints", () => {
+  it("should parse inequality chains", () => {
+    const constraints = parseConstraints([
+      "1 \\leq N \\leq 2 \\times 10^5",
+      "1 \\leq A_i, B_i \\leq N",
+      "0 \\leq K \\lt 10^{9}",
+      "H, W \\le 100",
+    ]);
+
+    expect(constraints.N).toEqual({ min: 1, max: 200000 });
+    expect(constraints.A).toEqual({ min: 1, max: "N" });
+    expect(constraints.B).toEqual({ min: 1, max: "N" });
+    expect(constraints.K).toEqual({ min: 0, max: 999999999 });
+    expect(constraints.H).toEqual({ max: 100 });
+    expect(constraints.W).toEqual({ max: 100 });
+  });
+
+  it("should constrain every term in the middle of a chain", () => {
+    const constraints = parseConstraints(["1 \\leq L_i < R_i \\leq N"]);
+
+    expect(constraints.L).toEqual({ min: 1, max: "R-1" });
+    expect(constraints.R).toEqual({ min: "L+1", max: "N" });
+  });
+
+  it("should parse integers between bounds in English and Japanese", () => {
+    const constraints = parseConstraints([
+      "N is an integer between 1 and 10 \\ 000 (inclusive).",
+      "M は 1 以上 N 以下の整数",
+    ]);
+
+    expect(constraints.N).toEqual({ min: 1, max: 10000 });
+    expect(constraints.M).toEqual({ min: 1, max: "N" });
+  });
+
+  it("should parse string lengths and alphabets", () => {
+    const constraints = parseConstraints([
+      "S is a string of length N consisting of lowercase English letters.",
+      "T_i is a string of length W consisting of . and #.",
+      "U は英大文字からなる長さ 1 以上 10 以下の文字列",
+      "1 \\leq |V| \\leq 20",
+    ]);
+
+    expect(constraints.S).toEqual({ minLength: "N", maxLength: "N", charset: "abcdefghijklmnopqrstuvwxyz" });
+    expect(constraints.T).toEqual({ minLength: "W", maxLength: "W", charset: ".#" });
+    expect(constraints.U).toEqual({ minLength: 1, maxLength: 10, charset: "ABCDEFGHIJKLMNOPQRSTUVWXYZ" });
+    expect(constraints.V).toEqual({ minLength: 1, maxLength: 20 });
+  });
+
+  it("should parse the charset of a string that consists of given letters", () => {
+    const constraints = parseConstraints(["S consists of lowercase English letters.", "T は数字のみからなる"]);
+
+    expect(constraints.S).toEqual({ charset: "abcdefghijklmnopqrstuvwxyz" });
+    expect(constraints.T).toEqual({ charset: "0123456789" });
+  });
+
+  it("should mark arrays with pairwise distinct elements", () => {
+    const constraints = parseConstraints([
+      "1 \\leq A_i \\leq N",
+      "A_i \\neq A_j (i \\neq j)",
+      "B_i are pairwise distinct.",
+      "C_i は相異なる",
+    ]);
+
+    expect(constraints.A).toEqual({ min: 1, max: "N", distinct: true });
+    expect(constraints.B).toEqual({ distinct: true });
+    expect(constraints.C).toEqual({ distinct: true });
+  });
+
+  it("should parse bounds on sums over all test cases", () => {
+    const constraints = parseConstraints([
+      "1 \\leq N \\leq 2 \\times 10^5",
+      "The sum of N over all test cases is at most 2 \\times 10^5.",
+      "\\sum_{i=1}^{T} M_i \\leq 3 \\times 10^5",
+      "全てのテストケースにおける |S| の総和は 5 \\times 10^5 以下",
+    ]);
+
+    expect(constraints.N).toEqual({ min: 1, max: 200000, sumMax: 200000 });
+    expect(constraints.M).toEqual({ sumMax: 300000 });
+    expect(constraints.S).toEqual({ sumMaxLength: 500000 });
+  });
+
+  it("should ignore items that are not constraints on variables", () => {
+    expect(parseConstraints(["All values in the input are integers.", "1 \\leq A_i + B_i \\leq N"])).toEqual({});
+  });
+});
+
+describe("evaluateBound", () => {
+  it("should evaluate expressions with variables", () => {
+    const lookup = (name: string) => ({ N: 5, M: 3 })[name];
+
+    expect(evaluateBound("2*N-1", lookup)).toBe(9);
+    expect(evaluateBound("N*(M+1)", lookup)).toBe(20);
+    expect(evaluateBound("10^5", lookup)).toBe(100000);
+    expect(evaluateBound("K", lookup)).toBeUndefined();
+  });
+});
+
+describe("fitsInInt32", () => {
+  it("should check the bounds, following references to other variables", () => {
+    const constraints = parseConstraints([
+      "1 \\leq N \\leq 2 \\times 10^5",
+      "1 \\leq A_i \\leq N",
+      "1 \\leq K \\leq 10^{18}",
+      "1 \\leq B_i \\leq K",
+      "X \\leq 100",
+    ]);
+
+    expect(fitsInInt32(constraints, "N")).toBe(true);
+    expect(fitsInInt32(constraints, "A")).toBe(true);
+    expect(fitsInInt32(constraints, "K")).toBe(false);
+    expect(fitsInInt32(constraints, "B")).toBe(false);
+    expect(fitsInInt32(constraints, "X")).toBe(false);
+    expect(fitsInInt32(constraints, "Y")).toBe(false);
+  });
+});
+
+describe("findIndexVariables", () => {
+  it("should find the variables bounded by 1 and a size, following other indices", () => {
+    const constraints = parseConstraints([
+      "2 \\leq N \\leq 2 \\times 10^5",
+      "1 \\leq Q \\leq 2 \\times 10^5",
+      "1 \\leq u_i < v_i \\leq N",
+      "1 \\leq L_i \\leq R_i \\leq N",
+      "0 \\leq A_i \\leq N",
+      "1 \\leq x_i \\leq 10^9",
+    ]);
+    const candidates = ["u", "v", "L", "R", "A", "x"];
+
+    expect(findIndexVariables(constraints, candidates, new Set(["N", "Q"]))).toEqual(new Set(["u", "v", "L", "R"]));
+    expect(findIndexVariables(constraints, candidates, new Set(["Q"]))).toEqual(new Set());
+  });
+});
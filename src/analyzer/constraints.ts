@@ -0,0 +1,344 @@
+/**
+ * Bound of a variable: a number, or an expression over other variables such as "N" or "N-1"
+ */
+export type Bound = number | string;
+
+export interface VariableConstraint {
+  min?: Bound;
+  max?: Bound;
+  /** Length range of a string variable */
+  minLength?: Bound;
+  maxLength?: Bound;
+  /** Characters a string variable consists of */
+  charset?: string;
+  /** The elements of the array are pairwise distinct (A_i ≠ A_j) */
+  distinct?: boolean;
+  /** Upper bound of the sum of the variable (or of the length of a string) over all test cases */
+  sumMax?: Bound;
+  sumMaxLength?: Bound;
+}
+
+export type Constraints = Record<string, VariableConstraint>;
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+const MAX_BOUND_DEPTH = 8;
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DIGITS = "0123456789";
+
+/**
+ * Parse the items of the Constraints section, e.g.
+ * "1 \leq N \leq 2 \times 10^5", "N is an integer between 1 and 100 (inclusive)",
+ * "S is a string of length N consisting of lowercase English letters", "A_i \neq A_j", "N は 1 以上 100 以下の整数" or
+ * "The sum of N over all test cases is at most 2 \times 10^5".
+ */
+export function parseConstraints(items: string[]): Constraints {
+  const constraints: Constraints = {};
+  const update = (name: string, constraint: VariableConstraint): void => {
+    constraints[name] = { ...constraints[name], ...constraint };
+  };
+
+  for (const item of items) {
+    const text = normalizeTex(item);
+
+    // A_i != A_j (i != j), A_i are pairwise distinct, A_i は相異なる
+    const distinct =
+      text.match(/^([A-Za-z][A-Za-z0-9]*)_\w+ != \1_\w+/) ??
+      text.match(/^([A-Za-z][A-Za-z0-9]*)(?:_\w+)? (?:are|is) (?:pairwise |all )?distinct/i) ??
+      text.match(/^([A-Za-z][A-Za-z0-9]*)(?:_\w+)?\s*は(?:すべて|全て)?(?:相異なる|互いに異なる)/);
+    if (distinct) {
+      update(distinct[1], { distinct: true });
+      continue;
+    }
+
+    // The sum of N over all test cases is at most 2*10^5, \sum_i^T N_i <= 2*10^5, 全てのテストケースにおける N の総和は 2*10^5 以下
+    const sum =
+      text.match(/^(?:the )?sum of (\S+) .*test cases?\b.*? (?:is )?(?:at most|<=|does not exceed) (.+?)\.?$/i) ??
+      text.match(/^\\sum_\w+\^T (\S+) <= (.+)$/) ??
+      text.match(/テストケース.*?(\|?[A-Za-z][A-Za-z0-9]*(?:_\w+)?\|?)\s*の総和は\s*(.+?)\s*以下/);
+    if (sum) {
+      const target = splitNames(sum[1])[0];
+      const bound = parseBound(sum[2]);
+      if (target && bound !== undefined) {
+        update(target.name, target.length ? { sumMaxLength: bound } : { sumMax: bound });
+      }
+      continue;
+    }
+
+    // 1 <= N <= 10^5, 1 <= A_i, B_i <= N, 1 <= L_i <= R_i <= N, |S| <= 10
+    const parts = text.split(/\s*(<=|<)\s*/);
+    if (parts.length >= 3) {
+      const terms = parts.filter((_, i) => i % 2 === 0);
+      const ops = parts.filter((_, i) => i % 2 === 1);
+      // The terms in the middle of a chain are constrained; in "N <= 10^5" or "1 <= N" it is the non-constant side
+      const targets =
+        terms.length === 2
+          ? [splitNames(terms[1]).length > 0 && splitNames(terms[0]).length === 0 ? 1 : 0]
+          : terms.map((_, i) => i).slice(1, -1);
+      for (const k of targets) {
+        const lower = k > 0 ? parseBound(terms[k - 1]) : undefined;
+        const upper = k + 1 < terms.length ? parseBound(terms[k + 1]) : undefined;
+        const min = lower !== undefined && ops[k - 1] === "<" ? offsetBound(lower, 1) : lower;
+        const max = upper !== undefined && ops[k] === "<" ? offsetBound(upper, -1) : upper;
+        for (const target of splitNames(terms[k])) {
+          const constraint: VariableConstraint = target.length ? { minLength: min, maxLength: max } : { min, max };
+          update(target.name, stripUndefined(constraint));
+        }
+      }
+      continue;
+    }
+
+    // N is an integer between 1 and 100 (inclusive) / N は 1 以上 100 以下の整数
+    const between =
+      text.match(
+        /^(\S+(?:\s*,\s*\S+)*) (?:is|are) (?:an? )?(?:integers?|real numbers?) between (.+?) and (.+?)(?: \(inclusive\))?\.?$/i,
+      ) ?? text.match(/^(\S+(?:\s*,\s*\S+)*)\s*は\s*(.+?)\s*以上\s*(.+?)\s*以下の(?:整数|実数)/);
+    if (between) {
+      for (const target of splitNames(between[1])) {
+        update(target.name, stripUndefined({ min: parseBound(between[2]), max: parseBound(between[3]) }));
+      }
+      continue;
+    }
+
+    const stringConstraint = parseStringConstraint(text);
+    if (stringConstraint) {
+      update(stringConstraint.name, stringConstraint.constraint);
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Evaluate a bound, looking up the variables it refers to
+ * @returns The value, or undefined if the bound refers to an unknown variable
+ */
+export function evaluateBound(
+  bound: Bound | undefined,
+  lookup: (name: string) => number | undefined = () => undefined,
+): number | undefined {
+  if (bound === undefined || typeof bound === "number") {
+    return bound;
+  }
+  const tokens = bound.match(/\d+(?:\.\d+)?|[A-Za-z]\w*|[-+*/^()]/g) ?? [];
+  let pos = 0;
+
+  // Recursive descent over + - * / ^ with the usual precedence
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (tokens[pos] === "+" || tokens[pos] === "-") {
+      const op = tokens[pos++];
+      const right = parseTerm();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  };
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (tokens[pos] === "*" || tokens[pos] === "/") {
+      const op = tokens[pos++];
+      const right = parsePower();
+      value = op === "*" ? value * right : Math.floor(value / right);
+    }
+    return value;
+  };
+  const parsePower = (): number => {
+    const base = parseFactor();
+    if (tokens[pos] === "^") {
+      pos++;
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+  const parseFactor = (): number => {
+    const token = tokens[pos++];
+    if (token === "-") return -parseFactor();
+    if (token === "(") {
+      const value = parseExpression();
+      pos++;
+      return value;
+    }
+    if (token !== undefined && /^\d/.test(token)) return Number(token);
+    return (token !== undefined ? lookup(token) : undefined) ?? NaN;
+  };
+
+  const value = parseExpression();
+  return isNaN(value) || pos !== tokens.length ? undefined : value;
+}
+
+/**
+ * Evaluate a bound, replacing a variable without a known value by its own bound of the same side
+ * (e.g. "R-1" becomes "N-1" when 1 <= R <= N)
+ */
+export function resolveBound(
+  constraints: Constraints,
+  bound: Bound | undefined,
+  side: "min" | "max",
+  lookup: (name: string) => number | undefined = () => undefined,
+  depth: number = 0,
+): number | undefined {
+  if (depth > MAX_BOUND_DEPTH) {
+    return undefined;
+  }
+  return evaluateBound(
+    bound,
+    (name) => lookup(name) ?? resolveBound(constraints, constraints[name]?.[side], side, lookup, depth + 1),
+  );
+}
+
+/**
+ * Whether the constraints guarantee that an integer variable fits in 32 bits
+ */
+export function fitsInInt32(constraints: Constraints, name: string): boolean {
+  const min = resolveBound(constraints, constraints[name]?.min, "min");
+  const max = resolveBound(constraints, constraints[name]?.max, "max");
+  return min !== undefined && max !== undefined && min >= INT32_MIN && max <= INT32_MAX;
+}
+
+/**
+ * Find the candidates that the constraints bound like 1-based indices: from 1 (or another index, as in u_i < v_i) up
+ * to a size such as N (or another index, as in L_i <= R_i <= N), e.g. "1 \le u_i, v_i \le N"
+ */
+export function findIndexVariables(constraints: Constraints, candidates: string[], sizes: Set<string>): Set<string> {
+  const reference = (bound: Bound | undefined): string | undefined =>
+    typeof bound === "string" ? bound.match(/^([A-Za-z]\w*)(?:[-+]\d+)?$/)?.[1] : undefined;
+
+  // Start from all the candidates and drop the ones whose bounds refer to anything but sizes and remaining indices
+  const indices = new Set(candidates.filter((name) => constraints[name]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const name of indices) {
+      const { min, max } = constraints[name];
+      const minRef = reference(min);
+      const maxRef = reference(max);
+      const validMin = min === 1 || (minRef !== undefined && indices.has(minRef));
+      const validMax = maxRef !== undefined && (sizes.has(maxRef) || indices.has(maxRef));
+      if (!validMin || !validMax) {
+        indices.delete(name);
+        changed = true;
+      }
+    }
+  }
+  return indices;
+}
+
+function normalizeTex(text: string): string {
+  return text
+    .replace(/\\(?:leq?|leqq)\b|≤|≦/g, " <= ")
+    .replace(/\\(?:geq?|geqq)\b|≥|≧/g, " >= ")
+    .replace(/\\neq?\b|≠/g, " != ")
+    .replace(/\\lt\b/g, " < ")
+    .replace(/\\gt\b/g, " > ")
+    .replace(/\\times\b|\\cdot\b|×/g, "*")
+    .replace(/\\(?:mid|vert)\b/g, "|")
+    .replace(/\\[ ,;!]/g, "")
+    .replace(/_\{[^}]*\}/g, "_i")
+    .replace(/[{}$]/g, "")
+    .replace(/(\d),(\d{3})\b/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(.+) >= (.+) >= (.+)$/, "$3 <= $2 <= $1");
+}
+
+/**
+ * Convert a bound to a number when it is constant ("2*10^5"), otherwise keep the expression
+ * ("N-1", "2N" as "2*N", "R_i" as "R")
+ */
+function parseBound(text: string): Bound | undefined {
+  const expression = text
+    .replace(/\s+/g, "")
+    .replace(/([A-Za-z][A-Za-z0-9]*)_\w+/g, "$1")
+    .replace(/(\d)([A-Za-z])/g, "$1*$2")
+    .replace(/\.$/, "");
+  if (!/^[\w+\-*/^().]+$/.test(expression)) {
+    return undefined;
+  }
+  const value = evaluateBound(expression);
+  if (value !== undefined) {
+    return value;
+  }
+  return /[A-Za-z]/.test(expression) ? expression : undefined;
+}
+
+function offsetBound(bound: Bound, delta: number): Bound {
+  return typeof bound === "number" ? bound + delta : `${bound}${delta > 0 ? "+" : ""}${delta}`;
+}
+
+function stripUndefined(constraint: VariableConstraint): VariableConstraint {
+  return Object.fromEntries(Object.entries(constraint).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Split "A_i, B_i" or "|S|" into variable names, dropping subscripts
+ */
+function splitNames(text: string): { name: string; length: boolean }[] {
+  return text
+    .split(/\s*,\s*/)
+    .map((part) => part.match(/^(\|?)([A-Za-z][A-Za-z0-9]*)(?:_\w+)?\1$/))
+    .filter((match) => match !== null)
+    .map((match) => ({ name: match[2], length: match[1] === "|" }));
+}
+
+function parseStringConstraint(text: string): { name: string; constraint: VariableConstraint } | undefined {
+  const english =
+    text.match(/^(\S+) (?:is|are) (?:an? )?strings? (.*)$/i) ?? text.match(/^(\S+) (consists (?:only )?of .*)$/i);
+  const japanese = text.match(/^(\S+)\s*は\s*(.*)文字列/) ?? text.match(/^(\S+)\s*は\s*(.*からなる)/);
+  const match = english ?? japanese;
+  if (!match) {
+    return undefined;
+  }
+  const name = splitNames(match[1])[0]?.name;
+  if (!name) {
+    return undefined;
+  }
+  const rest = match[2];
+  const constraint: VariableConstraint = {};
+
+  const lengthRange =
+    rest.match(/length between (.+?) and (.+?)(?: \(inclusive\))?(?:,| consisting|\.|$)/i) ??
+    rest.match(/長さ\s*(.+?)\s*以上\s*(.+?)\s*以下/);
+  const lengthExact = rest.match(/length (?:of )?(?:exactly )?(\S+?)(?:,| |\.|$)/i) ?? rest.match(/長さ\s*(\S+?)\s*の/);
+  const lengthAtMost = rest.match(/length (?:of )?at most (\S+?)(?:,| |\.|$)/i);
+  if (lengthRange) {
+    constraint.minLength = parseBound(lengthRange[1]);
+    constraint.maxLength = parseBound(lengthRange[2]);
+  } else if (lengthAtMost) {
+    constraint.minLength = 1;
+    constraint.maxLength = parseBound(lengthAtMost[1]);
+  } else if (lengthExact && lengthExact[1] !== "between" && lengthExact[1] !== "at") {
+    constraint.minLength = parseBound(lengthExact[1]);
+    constraint.maxLength = constraint.minLength;
+  }
+
+  const charset = parseCharset(rest);
+  if (charset) {
+    constraint.charset = charset;
+  }
+  return { name, constraint };
+}
+
+function parseCharset(text: string): string | undefined {
+  let charset = "";
+  if (/lowercase|英小文字/i.test(text)) charset += LOWERCASE;
+  if (/uppercase|英大文字/i.test(text)) charset += UPPERCASE;
+  if (/digits|数字/i.test(text)) charset += DIGITS;
+  if (charset) {
+    return charset;
+  }
+
+  // consisting of . and # / consists of . and # / . と # からなる
+  const list =
+    text.match(/consist(?:ing|s) (?:only )?of (.+?)(?:\.$|$)/i)?.[1] ??
+    text.match(/^(.+?)\s*(?:のみ)?からなる/)?.[1]?.replace(/^.*の\s*/, "");
+  if (!list) {
+    return undefined;
+  }
+  const chars = list
+    .split(/\s*(?:,|、|and|or|と|および)\s*/)
+    .map((c) => c.replace(/^["'`]|["'`]$/g, ""))
+    .filter((c) => c.length === 1);
+  return chars.length > 0 ? chars.join("") : undefined;
+}
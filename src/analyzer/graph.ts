@@ -0,0 +1,113 @@
+import { Constraints } from "./constraints.js";
+import { ASTNode, BinOpNode, FormatNode, ItemNode, LoopNode, NumberNode, VarType } from "./types.js";
+
+/**
+ * Graph given as an edge list ("u_i v_i (w_i)" for each edge) or as the parents of the vertices 2..N ("p_2 ... p_N")
+ */
+export interface GraphInfo {
+  // Name of the number of vertices
+  vertices: string;
+  // Number of edges, e.g. M or N - 1
+  edges: ASTNode;
+  // Endpoints and weights of the edges of an edge list
+  from?: string;
+  to?: string;
+  weight?: string;
+  // Parents of the vertices 2..N of a rooted tree
+  parent?: string;
+  directed: boolean;
+  oneIndexed: boolean;
+}
+
+/**
+ * Direction of the graph hinted by the statement, or undefined if the statement is not about a graph
+ */
+export type GraphType = "directed" | "undirected";
+
+/**
+ * Find the edge list or parent array of a graph problem in the analyzed format
+ * @param graphType What the statement says about the graph. Without it no graph is detected, since pairs of
+ * integers bounded by N are common in other problems too.
+ */
+export function detectGraph(
+  format: FormatNode,
+  types: Record<string, VarType>,
+  constraints: Constraints,
+  graphType?: GraphType,
+): GraphInfo | undefined {
+  if (!graphType) {
+    return undefined;
+  }
+  const scalars = new Set(
+    format.children
+      .filter((node): node is ItemNode => node.type === "item" && (node as ItemNode).indices.length === 0)
+      .map((item) => item.name),
+  );
+  const isInt = (name: string): boolean => types[name] === VarType.ValueInt || types[name] === VarType.IndexInt;
+  // 1-indexed unless a vertex can be 0
+  const isOneIndexed = (name: string): boolean => constraints[name]?.min !== 0;
+
+  for (const node of format.children) {
+    if (node.type !== "loop") continue;
+    const loop = node as LoopNode;
+    const items = loop.body.filter((child): child is ItemNode => child.type === "item");
+    if (items.length !== loop.body.length || !items.every((item) => isIndexedBy(item, loop.variable))) continue;
+    const start = loop.start.type === "number" ? (loop.start as NumberNode).value : undefined;
+
+    // u_1 v_1 (w_1) ... u_M v_M (w_M)
+    if (start === 1 && (items.length === 2 || items.length === 3) && isInt(items[0].name) && isInt(items[1].name)) {
+      const [from, to, weight] = items.map((item) => item.name);
+      const vertices =
+        [from, to]
+          .map((name) => constraints[name]?.max)
+          .find((bound): bound is string => typeof bound === "string" && scalars.has(bound)) ??
+        (loop.end.type === "binop" ? treeVertices(loop.end as BinOpNode) : undefined);
+      if (!vertices) continue;
+      if (weight && types[weight] !== VarType.Float && !isInt(weight)) continue;
+
+      return {
+        vertices,
+        edges: loop.end,
+        from,
+        to,
+        weight,
+        directed: graphType === "directed",
+        oneIndexed: isOneIndexed(from),
+      };
+    }
+
+    // p_2 ... p_N, where p_i < i or p_i <= N
+    const end = loop.end.type === "item" ? (loop.end as ItemNode) : undefined;
+    if (start === 2 && items.length === 1 && end && scalars.has(end.name) && isInt(items[0].name)) {
+      const parent = items[0].name;
+      if (typeof constraints[parent]?.max !== "string") continue;
+
+      return {
+        vertices: end.name,
+        edges: { type: "binop", op: "-", left: end, right: { type: "number", value: 1 } } as BinOpNode,
+        parent,
+        directed: graphType === "directed",
+        oneIndexed: isOneIndexed(parent),
+      };
+    }
+  }
+  return undefined;
+}
+
+function isIndexedBy(item: ItemNode, variable: string): boolean {
+  const [index] = item.indices;
+  return item.indices.length === 1 && index.type === "item" && (index as ItemNode).name === variable;
+}
+
+// N for the N - 1 edges of a tree
+function treeVertices(end: BinOpNode): string | undefined {
+  if (
+    end.op === "-" &&
+    end.left.type === "item" &&
+    end.right.type === "number" &&
+    (end.right as NumberNode).value === 1
+  ) {
+    return (end.left as ItemNode).name;
+  }
+  return undefined;
+}
@@ -108,4 +108,75 @@ describe("htmlParser", () => {
     expect(loopNode.body).toHaveLength(1);
     expect((loopNode.body[0] as ItemNode).name).toBe("a");
   });
+
+  it("should parse time and memory limits in English", () => {
+    const html = `<html><body>
+      <p>Time Limit: 2 sec / Memory Limit: 1024 MiB</p>
+      <span class="lang-en"><h3>Input</h3><pre>N</pre></span>
+    </body></html>`;
+    const result = parseHtml(html);
+
+    expect(result.timeLimitMs).toBe(2000);
+    expect(result.memoryLimitMb).toBe(1024);
+  });
+
+  it("should parse time and memory limits in Japanese", () => {
+    const html = `<html><body>
+      <p>実行時間制限: 2.5 sec / メモリ制限: 256 MiB</p>
+    </body></html>`;
+    const result = parseHtml(html);
+
+    expect(result.timeLimitMs).toBe(2500);
+    expect(result.memoryLimitMb).toBe(256);
+  });
+
+  it("should leave limits undefined when they are not stated", () => {
+    const result = parseHtml("<html><body><pre>N</pre></body></html>");
+
+    expect(result.timeLimitMs).toBeUndefined();
+    expect(result.memoryLimitMb).toBeUndefined();
+  });
+
+  it("should detect interactive problems", () => {
+    const html = `<html><body>
+      <section><h3>Problem Statement</h3><p>This is an interactive task.</p></section>
+      <section><h3>Output</h3><p>Print the answer with an absolute error of at most 10^{-6}.</p></section>
+    </body></html>`;
+    const result = parseHtml(html);
+
+    expect(result.judgeType).toBe("interactive");
+    expect(result.errorTolerance).toBeUndefined();
+  });
+
+  it("should detect interactive problems in Japanese", () => {
+    const html = `<html><body>
+      <section><h3>問題文</h3><p>この問題はインタラクティブな問題です。</p></section>
+    </body></html>`;
+
+    expect(parseHtml(html).judgeType).toBe("interactive");
+  });
+
+  it("should flag problems that accept any of multiple answers", () => {
+    const html = `<html><body>
+      <section><h3>Output</h3><p>If there are multiple solutions, any of them will be accepted.</p></section>
+    </body></html>`;
+
+    expect(parseHtml(html).judgeType).toBe("multisolution");
+  });
+
+  it("should flag multiple answers in Japanese statements", () => {
+    const html = `<html><body>
+      <section><h3>出力</h3><p>答えが複数存在する場合、どれを出力しても正解とみなされます。</p></section>
+    </body></html>`;
+
+    expect(parseHtml(html).judgeType).toBe("multisolution");
+  });
+
+  it("should not flag a choice between Yes and No", () => {
+    const html = `<html><body>
+      <section><h3>出力</h3><p>Yes と No のいずれかを出力せよ。</p></section>
+    </body></html>`;
+
+    expect(parseHtml(html).judgeType).toBe("normal");
+  });
 });
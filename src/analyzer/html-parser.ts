@@ -1,8 +1,16 @@
 import * as cheerio from "cheerio";
+import { Constraints, parseConstraints } from "./constraints.js";
+import { parseMultipleCasesFormat } from "./multiple-cases.js";
+import { GraphType } from "./graph.js";
 
 export interface Sample {
   input: string;
   output: string;
+  // Input and output of each case of a multi-testcase problem, when the sample could be split into cases
+  cases?: {
+    input: string;
+    output: string;
+  }[];
 }
 
 type OutputType = {
@@ -19,9 +27,16 @@ type ParseResult = OutputType & {
   samples: Sample[];
   multipleCases: boolean;
   queryType: boolean;
+  // Format of each kind of query (e.g. "1 x y", "2 k"), from the blocks after the first one
+  queryFormats: string[];
   judgeType: string;
   errorTolerance?: number;
   mod?: number;
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+  constraints: Constraints;
+  // Whether the statement is about a directed or undirected graph (trees are undirected)
+  graphType?: GraphType;
 };
 
 export function parseHtml(html: string): ParseResult {
@@ -31,11 +46,16 @@ export function parseHtml(html: string): ParseResult {
   const tempSamples: Record<string, { input?: string; output?: string }> = {};
   let multipleCases = false;
   let queryType = false;
+  let queryFormats: string[] = [];
   let judgeType = "normal";
   let errorTolerance: number | undefined = undefined;
   let mod: number | undefined = undefined;
+  let interactive = false;
+  let multipleSolutions = false;
+  let graphType: GraphType | undefined = undefined;
+  const constraintItems: string[] = [];
 
-  const checkFloatingPoint = (text: string) => {
+  const checkFloatingPoint = (text: string): void => {
     const sectionText = text.toLowerCase();
     if (
       sectionText.includes("絶対誤差") ||
@@ -56,7 +76,7 @@ export function parseHtml(html: string): ParseResult {
     }
   };
 
-  const checkMod = (text: string) => {
+  const checkMod = (text: string): void => {
     if (text.includes("998244353")) {
       mod = 998244353;
     } else if (text.includes("1000000007") || text.includes("10^9+7") || text.includes("10^{9}+7")) {
@@ -64,6 +84,26 @@ export function parseHtml(html: string): ParseResult {
     }
   };
 
+  const checkInteractive = (text: string): void => {
+    if (/interactive (?:task|problem)|インタラクティブ/i.test(text)) {
+      interactive = true;
+    }
+  };
+
+  const checkMultipleSolutions = (text: string): void => {
+    if (/any of them|print any|いずれか[^。]*正解|どれを出力しても/i.test(text)) {
+      multipleSolutions = true;
+    }
+  };
+
+  const checkGraphType = (text: string): void => {
+    if (/\bdirected graph|有向グラフ/i.test(text) && !/undirected graph|無向グラフ/i.test(text)) {
+      graphType = "directed";
+    } else if (/\bgraph\b|\btree\b|\bvert(?:ex|ices)\b|グラフ|頂点/i.test(text)) {
+      graphType ??= "undirected";
+    }
+  };
+
   $("h3").each((_, element) => {
     const text = $(element).text().trim();
     const section = $(element).closest("section");
@@ -72,15 +112,17 @@ export function parseHtml(html: string): ParseResult {
       const pres = section.find("pre");
       if (pres.length >= 3) {
         // Query type problem
-        // Use only the first block for format
+        // The first block is the format of the whole input, and the others are the formats of the queries
         inputFormat = pres.eq(0).text();
+        queryFormats = pres
+          .slice(1)
+          .map((_, pre) => $(pre).text().trim())
+          .get();
         queryType = true;
         multipleCases = false;
       } else if (pres.length >= 2) {
-        const firstPreText = pres.eq(0).text().trim();
-        // Check if starts with T or Q.
-        // The content might be <var>T</var>... so text is T...
-        if (firstPreText.startsWith("T") || firstPreText.startsWith("Q")) {
+        // The first block is "T case_1 case_2 ... case_T" and the second one is the format of a case
+        if (parseMultipleCasesFormat(pres.eq(0).text().trim())) {
           multipleCases = true;
           inputFormat = pres.eq(1).text();
         } else {
@@ -93,8 +135,14 @@ export function parseHtml(html: string): ParseResult {
       const sectionText = section.text();
       checkFloatingPoint(sectionText);
       checkMod(sectionText);
+      checkInteractive(sectionText);
+      checkMultipleSolutions(sectionText);
+      checkGraphType(sectionText);
     } else if (text.match(/^Constraints|制約$/i)) {
       checkMod(section.text());
+      section.find("li").each((_, li) => {
+        constraintItems.push($(li).text());
+      });
     } else {
       const inputMatch = text.match(/^(?:Sample Input|入力例)\s*(\d+)?$/i);
       if (inputMatch) {
@@ -131,6 +179,17 @@ export function parseHtml(html: string): ParseResult {
     }
   });
 
+  // The judge talks to the solution, so neither the sample output nor the error tolerance applies
+  if (interactive) {
+    judgeType = "interactive";
+    errorTolerance = undefined;
+  } else if (multipleSolutions && judgeType === "normal") {
+    // The sample output is only one of the accepted answers, so a checker is needed to judge the output
+    judgeType = "multisolution";
+  }
+
+  const { timeLimitMs, memoryLimitMb } = parseLimits($("body").text());
+
   // Convert tempSamples to array
   const ids = Object.keys(tempSamples).sort((a, b) => Number(a) - Number(b));
 
@@ -151,13 +210,50 @@ export function parseHtml(html: string): ParseResult {
     samples,
     multipleCases,
     queryType,
+    queryFormats,
     judgeType,
     errorTolerance,
     mod,
+    timeLimitMs,
+    memoryLimitMb,
+    constraints: parseConstraints(constraintItems),
+    graphType,
     ...inferReturnType(allOutputs, judgeType, mod, multipleCases),
   };
 }
 
+/**
+ * Whether the HTML is a problem statement with an input format or samples, rather than a 404 page, the page of a
+ * contest that has not started or a login page
+ */
+export function isProblemPage(html: string): boolean {
+  const { inputFormat, samples } = parseHtml(html);
+  return inputFormat.length > 0 || samples.length > 0;
+}
+
+/**
+ * Parse "Time Limit: 2 sec / Memory Limit: 1024 MiB" (or the Japanese equivalent) shown above the statement
+ */
+function parseLimits(text: string): { timeLimitMs?: number; memoryLimitMb?: number } {
+  const timeMatch = text.match(/(?:Time Limit|実行時間制限)\s*[:：]\s*([\d.]+)\s*(sec|ms)/i);
+  const memoryMatch = text.match(/(?:Memory Limit|メモリ制限)\s*[:：]\s*([\d.]+)\s*([KMG])i?B/i);
+
+  let timeLimitMs: number | undefined = undefined;
+  if (timeMatch) {
+    const value = parseFloat(timeMatch[1]);
+    timeLimitMs = Math.round(timeMatch[2].toLowerCase() === "ms" ? value : value * 1000);
+  }
+
+  let memoryLimitMb: number | undefined = undefined;
+  if (memoryMatch) {
+    const value = parseFloat(memoryMatch[1]);
+    const unit = memoryMatch[2].toUpperCase();
+    memoryLimitMb = Math.round(unit === "G" ? value * 1024 : unit === "K" ? value / 1024 : value);
+  }
+
+  return { timeLimitMs, memoryLimitMb };
+}
+
 function inferReturnType(
   outputs: string[],
   judgeType: string,
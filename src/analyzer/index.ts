@@ -4,3 +4,5 @@ export * from "./parser";
 export * from "./analyzer";
 export * from "./match";
 export * from "./typing";
+export * from "./multiple-cases";
+export * from "./graph";
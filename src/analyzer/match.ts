@@ -2,6 +2,7 @@ import {
   ASTNode,
   BinOpNode,
   FormatNode,
+  GridNode,
   ItemNode,
   LoopNode,
   NumberNode,
@@ -75,8 +76,20 @@ export function matchFormat(
     tokens.pop(); // Handle empty input
   }
 
+  return matchTokens(node, tokens).env;
+}
+
+/**
+ * Match the format against the tokens from `start`, leaving the rest unread
+ * @returns The values of the variables and the index of the first unread token
+ */
+export function matchTokens(
+  node: FormatNode,
+  tokens: string[],
+  start: number = 0,
+): { env: Record<string, any>; end: number } {
   const env: Record<string, any> = {};
-  let tokenIndex = 0;
+  let tokenIndex = start;
 
   function consume(): string {
     if (tokenIndex >= tokens.length) {
@@ -138,6 +151,21 @@ export function matchFormat(
           processNode(child, newLoopContext);
         }
       }
+    } else if (ast.type === "grid") {
+      // Each row is one token of exactly `cols` characters
+      const grid = ast as GridNode;
+      const rows = evalAST(grid.rows, { ...env, ...loopContext });
+      const cols = evalAST(grid.cols, { ...env, ...loopContext });
+      env[grid.name] = {};
+      for (let i = 1; i <= rows; i++) {
+        const row = consume();
+        if (row.length !== cols) {
+          throw new MatchError(
+            `Row ${i} of ${grid.name} has ${row.length} characters, expected ${cols}`,
+          );
+        }
+        env[grid.name][String(i)] = row;
+      }
     } else if (ast.type === "break") {
       // Newline checks are implicit in whitespace tokenization
     } else if (ast.type === "dots") {
@@ -151,5 +179,5 @@ export function matchFormat(
   }
 
   processNode(node);
-  return env;
+  return { env, end: tokenIndex };
 }
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { parseMultipleCasesFormat, splitCases, splitCaseOutputs } from "./multiple-cases";
+import { Lexer } from "./lexer";
+import { Parser } from "./parser";
+import { Analyzer } from "./analyzer";
+import { MatchError } from "./match";
+import { FormatNode } from "./types";
+
+function parseFormat(text: string): FormatNode {
+  return new Analyzer().analyze(new Parser(new Lexer(text).tokenize()).parse());
+}
+
+describe("parseMultipleCasesFormat", () => {
+  it("should recognize the number of cases followed by the cases", () => {
+    expect(parseMultipleCasesFormat("T\n\\mathrm{case}_1\n\\mathrm{case}_2\n\\vdots\n\\mathrm{case}_T")).toBe("T");
+    expect(parseMultipleCasesFormat("T\n\\text{test}_1\n\\vdots\n\\text{test}_T")).toBe("T");
+    expect(parseMultipleCasesFormat("T")).toBe("T");
+  });
+
+  it("should not mistake an ordinary format for multiple cases", () => {
+    expect(parseMultipleCasesFormat("N\nA_1 A_2 \\ldots A_N")).toBeUndefined();
+    expect(parseMultipleCasesFormat("N M")).toBeUndefined();
+    expect(parseMultipleCasesFormat("N")).toBeUndefined();
+  });
+});
+
+describe("splitCases", () => {
+  const caseFormat = parseFormat("N\nA_1 A_2 \\ldots A_N");
+
+  it("should split the input into the lines of each case", () => {
+    expect(splitCases(caseFormat, "2\n3\n1 2 3\n2\n10 20\n")).toEqual(["3\n1 2 3", "2\n10 20"]);
+  });
+
+  it("should reject inputs that do not match the format of a case", () => {
+    // The second case is missing a value
+    expect(() => splitCases(caseFormat, "2\n3\n1 2 3\n2\n10\n")).toThrow(MatchError);
+    // There are more cases than T
+    expect(() => splitCases(caseFormat, "1\n1\n5\n1\n6\n")).toThrow(/tokens are left/);
+    // The first case ends in the middle of a line
+    expect(() => splitCases(caseFormat, "2\n1\n5 1\n6\n")).toThrow(/line break/);
+  });
+});
+
+describe("splitCaseOutputs", () => {
+  it("should split an output of one line per case", () => {
+    expect(splitCaseOutputs("8\n3\n", 2)).toEqual(["8", "3"]);
+    expect(splitCaseOutputs("Yes\nNo\nYes", 2)).toBeUndefined();
+  });
+
+  it("should not split an output whose cases may have different numbers of lines", () => {
+    expect(splitCaseOutputs("2\n1 2\n1\n3", 2)).toBeUndefined();
+    expect(splitCaseOutputs("-1\n2\n1 2\n3", 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { Lexer } from "./lexer.js";
+import { Parser } from "./parser.js";
+import { Analyzer } from "./analyzer.js";
+import { MatchError, matchTokens } from "./match.js";
+import { FormatNode, ItemNode, LoopNode } from "./types.js";
+
+// Names of the items repeated T times, e.g. case_i in "T case_1 case_2 ... case_T"
+const CASE_NAMES = /^(?:case|test|testcase|query)$/i;
+
+/**
+ * Recognize the outer format of a multi-testcase problem, "T case_1 case_2 ... case_T" (or a lone "T" or "Q")
+ * @returns The name of the number of cases, or undefined if the format is not of that form
+ */
+export function parseMultipleCasesFormat(text: string): string | undefined {
+  let format: FormatNode;
+  try {
+    format = new Analyzer().analyze(new Parser(new Lexer(text).tokenize()).parse());
+  } catch {
+    return undefined;
+  }
+
+  const [count, cases, ...rest] = format.children.filter((child) => child.type !== "break");
+  if (count?.type !== "item" || (count as ItemNode).indices.length > 0 || rest.length > 0) {
+    return undefined;
+  }
+  const countName = (count as ItemNode).name;
+  if (!cases) {
+    return countName === "T" || countName === "Q" ? countName : undefined;
+  }
+
+  const loop = cases as LoopNode;
+  if (
+    loop.type !== "loop" ||
+    loop.end.type !== "item" ||
+    (loop.end as ItemNode).name !== countName ||
+    loop.body.length !== 1 ||
+    loop.body[0].type !== "item" ||
+    (loop.body[0] as ItemNode).indices.length !== 1 ||
+    !CASE_NAMES.test((loop.body[0] as ItemNode).name)
+  ) {
+    return undefined;
+  }
+  return countName;
+}
+
+/**
+ * Split the input of a multi-testcase problem into the inputs of its cases, checking each case against the format of
+ * one case. Every case has to start on a new line and no token may be left after the last case.
+ * @throws MatchError if the input does not match the format
+ */
+export function splitCases(caseFormat: FormatNode, input: string): string[] {
+  const lines = input.split(/\r?\n/);
+  const tokens = lines.flatMap((line, lineIndex) =>
+    line
+      .trim()
+      .split(/\s+/)
+      .filter((value) => value.length > 0)
+      .map((value) => ({ value, lineIndex })),
+  );
+  const values = tokens.map(({ value }) => value);
+
+  const count = Number(values[0]);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new MatchError(`The number of cases is not an integer: ${values[0] ?? ""}`);
+  }
+
+  const cases: string[] = [];
+  let index = 1;
+  for (let i = 0; i < count; i++) {
+    let end: number;
+    try {
+      end = matchTokens(caseFormat, values, index).end;
+    } catch (e) {
+      throw new MatchError(`Case ${i + 1}: ${(e as Error).message}`);
+    }
+    if (end === index) {
+      throw new MatchError(`Case ${i + 1} is empty`);
+    }
+
+    const firstLine = tokens[index].lineIndex;
+    const lastLine = tokens[end - 1].lineIndex;
+    if (tokens[index - 1].lineIndex === firstLine || (end < tokens.length && tokens[end].lineIndex === lastLine)) {
+      throw new MatchError(`Case ${i + 1} does not start or end at a line break`);
+    }
+    cases.push(lines.slice(firstLine, lastLine + 1).join("\n"));
+    index = end;
+  }
+
+  if (index < tokens.length) {
+    throw new MatchError(`${tokens.length - index} tokens are left after ${count} cases`);
+  }
+  return cases;
+}
+
+/**
+ * Split the output of a multi-testcase problem into the outputs of its cases. Every case prints at least one line, so
+ * the split is only certain when there are as many lines as cases; otherwise the cases may print different numbers of
+ * lines (e.g. "-1" or a list).
+ * @returns One line per case, or undefined if the output has more lines than cases
+ */
+export function splitCaseOutputs(output: string, count: number): string[] | undefined {
+  const lines = output.trim().split(/\r?\n/);
+  return count > 0 && lines.length === count ? lines : undefined;
+}
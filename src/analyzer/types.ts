@@ -77,3 +77,11 @@ export interface LoopNode extends ASTNode {
   end: ASTNode;
   body: ASTNode[];
 }
+
+// Rows of characters written without spaces, e.g. S_{1,1}S_{1,2}...S_{H,W}, read as `rows` strings of length `cols`
+export interface GridNode extends ASTNode {
+  type: "grid";
+  name: string;
+  rows: ASTNode;
+  cols: ASTNode;
+}
@@ -1,5 +1,6 @@
-import { FormatNode, VarType, ASTNode, LoopNode, ItemNode, BinOpNode } from "./types.js";
+import { FormatNode, VarType, ASTNode, LoopNode, ItemNode, BinOpNode, GridNode } from "./types.js";
 import { matchFormat } from "./match.js";
+import { Analyzer } from "./analyzer.js";
 
 export class TypingError extends Error {
   constructor(message: string) {
@@ -213,6 +214,27 @@ function collapseLoops(node: ASTNode): {
   return { collapsedAst, collapsedVars };
 }
 
+function inferTypesOfAst(node: FormatNode, instances: string[]): Record<string, VarType> {
+  let finalTypes: Record<string, VarType> | null = null;
+  for (const instance of instances) {
+    const values = matchFormat(node, instance);
+    const types = getVarTypesFromMatchResult(values);
+    finalTypes = finalTypes ? unifyVarTypes(finalTypes, types) : types;
+  }
+  return resolveBinaryStrings(finalTypes || {}, node);
+}
+
+function collectGridNames(node: ASTNode, names: Set<string> = new Set()): Set<string> {
+  if (node.type === "grid") {
+    names.add((node as GridNode).name);
+  } else if (node.type === "format") {
+    (node as FormatNode).children.forEach((child) => collectGridNames(child, names));
+  } else if (node.type === "loop") {
+    (node as LoopNode).body.forEach((child) => collectGridNames(child, names));
+  }
+  return names;
+}
+
 export function inferTypesFromInstances(
   node: FormatNode,
   instances: string[],
@@ -225,14 +247,8 @@ export function inferTypesFromInstances(
 
   let firstError: any;
   try {
-    let finalTypes: Record<string, VarType> | null = null;
-    for (const instance of instances) {
-      const values = matchFormat(node, instance);
-      const types = getVarTypesFromMatchResult(values);
-      finalTypes = finalTypes ? unifyVarTypes(finalTypes, types) : types;
-    }
     return {
-      types: resolveBinaryStrings(finalTypes || {}, node),
+      types: inferTypesOfAst(node, instances),
       collapsedVars: new Set(),
       collapsedAst: node,
     };
@@ -240,17 +256,26 @@ export function inferTypesFromInstances(
     firstError = e;
   }
 
+  // Rows of characters without spaces: each row is a string of the grid
+  const gridAst = new Analyzer().detectGrids(node);
+  const gridNames = collectGridNames(gridAst);
+  if (gridNames.size > 0) {
+    try {
+      const types = inferTypesOfAst(gridAst, instances);
+      for (const name of gridNames) {
+        types[name] = VarType.String;
+      }
+      return { types, collapsedVars: gridNames, collapsedAst: gridAst };
+    } catch (_) {
+      // Fall back to collapsing loops
+    }
+  }
+
   const { collapsedAst, collapsedVars } = collapseLoops(node);
   if (collapsedVars.size > 0) {
     try {
-      let finalTypes: Record<string, VarType> | null = null;
-      for (const instance of instances) {
-        const values = matchFormat(collapsedAst as FormatNode, instance);
-        const types = getVarTypesFromMatchResult(values);
-        finalTypes = finalTypes ? unifyVarTypes(finalTypes, types) : types;
-      }
       return {
-        types: resolveBinaryStrings(finalTypes || {}, collapsedAst as FormatNode),
+        types: inferTypesOfAst(collapsedAst as FormatNode, instances),
         collapsedVars,
         collapsedAst: collapsedAst as FormatNode,
       };
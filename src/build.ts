@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import { execSync } from "child_process";
 import { ConfigManager } from "./config.js";
+import { LanguageRegistry, getFileOption, getLangOption } from "./languages.js";
 import { logError } from "./utils.js";
 
 export class BuildManager {
@@ -10,7 +11,12 @@ export class BuildManager {
     this.configManager = configManager;
   }
 
-  async run(_args: string[]): Promise<boolean> {
+  /**
+   * Build the code file of metadata.json, the one written in the language given by `--lang`, or the file given by
+   * `--file`
+   * @param logToStderr Print the compiler output to stderr, e.g. when stdout carries a JSON report
+   */
+  async run(args: string[], logToStderr: boolean = false): Promise<boolean> {
     if (!fs.existsSync("metadata.json")) {
       logError("metadata.json not found in the current directory.");
       return false;
@@ -18,34 +24,45 @@ export class BuildManager {
 
     try {
       const metadata: any = JSON.parse(fs.readFileSync("metadata.json", "utf-8"));
-      const codeFilename = metadata.code_filename;
+      const registry = new LanguageRegistry(this.configManager);
+      const lang = getLangOption(args);
+      const codeFilename = getFileOption(args) ?? registry.selectCodeFile(metadata, lang);
 
       if (!codeFilename) {
-        logError("code_filename not found in metadata.json");
+        logError(lang ? `No ${lang} code file in metadata.json` : "code_filename not found in metadata.json");
         return false;
       }
 
-      if (codeFilename.endsWith(".py")) {
-        // needless to build
-        return true;
-      } else if (codeFilename.endsWith(".cpp")) {
-        const buildCommand =
-          this.configManager.getConfig().buildCommand?.cpp || "g++ -O3 -std=c++23 -DNDEBUG main.cpp -o main";
-        console.log(`Executing build command: ${buildCommand}`);
-        try {
-          execSync(buildCommand, { encoding: "utf-8", stdio: "inherit" });
-          return true;
-        } catch (_) {
-          logError("Build failed.");
-          return false;
-        }
-      } else {
+      const language = registry.findByFilename(codeFilename);
+      if (!language) {
         console.log(`Build not supported for ${codeFilename}`);
         return true;
       }
+
+      const commands = registry.getCommands(language, codeFilename);
+      if (!commands) {
+        logError(`The build command of ${language.name} cannot build ${codeFilename}. Use {file} and {name} in it.`);
+        return false;
+      }
+      if (!commands.build) {
+        // needless to build
+        return true;
+      }
+      return this.build(commands.build, logToStderr);
     } catch (error) {
       logError("reading or parsing metadata.json:", error);
       return false;
     }
   }
+
+  private build(buildCommand: string, logToStderr: boolean): boolean {
+    console.log(`Executing build command: ${buildCommand}`);
+    try {
+      execSync(buildCommand, { encoding: "utf-8", stdio: logToStderr ? ["inherit", 2, "inherit"] : "inherit" });
+      return true;
+    } catch (_) {
+      logError("Build failed.");
+      return false;
+    }
+  }
 }
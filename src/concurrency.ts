@@ -0,0 +1,44 @@
+/**
+ * Map items with an async function, running at most `limit` calls at a time.
+ * The results are returned in the same order as the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Spaces out calls so that at most one starts per `intervalMs`, e.g. to stay polite to the AtCoder server
+ */
+export class RateLimiter {
+  private intervalMs: number;
+  private nextStart = 0;
+
+  constructor(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Resolve when the caller may start its request
+   */
+  async wait(): Promise<void> {
+    const now = Date.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + this.intervalMs;
+    if (start > now) {
+      await new Promise((resolve) => setTimeout(resolve, start - now));
+    }
+  }
+}
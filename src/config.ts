@@ -25,15 +25,17 @@ export interface AppConfig {
   };
   workspaceDir?: string;
   language?: string;
-  buildCommand?: {
-    cpp?: string;
-  };
-  runCommand?: {
-    python?: string;
-    cpp?: string;
-  };
+  buildCommand?: Record<string, string>;
+  runCommand?: Record<string, string>;
   allowedCommands?: string[];
+  autoSubmit?: boolean;
+  submitLanguage?: Record<string, string>;
+  submitGuard?: boolean;
+  limitWarningRatio?: number;
   createContestDirectory?: boolean;
+  genConcurrency?: number;
+  genRequestIntervalMs?: number;
+  problemCacheTtlHours?: number;
   preProcess?: {
     execOnEachProblemDir?: string;
   };
@@ -16,6 +16,15 @@ export function resolveStoreDir(useUserConfig: boolean, cwd?: string): string {
   return useUserConfig ? envPaths(PROJECT_NAME).config : os.tmpdir();
 }
 
+/**
+ * Resolve the directory for downloaded data such as the problem cache.
+ * Same rules as `resolveStoreDir`, but under the env-paths user data dir.
+ */
+export function resolveDataDir(useUserConfig: boolean, cwd?: string): string {
+  if (cwd) return cwd;
+  return useUserConfig ? envPaths(PROJECT_NAME).data : join(os.tmpdir(), PROJECT_NAME);
+}
+
 /**
  * Abstract base for file-backed stores. Subclasses choose the on-disk format
  * (deserialize / persist) while sharing path resolution, in-memory caching,
@@ -0,0 +1,118 @@
+import fs from "fs";
+import { BrowserManager } from "./browser.js";
+import { ConfigManager } from "./config.js";
+import { generateParseResult } from "./generator/pipeline.js";
+import { InputSynthesizer, SynthesisMode } from "./generator/input-synthesizer.js";
+import { ProblemCache, createProblemCache } from "./problem-cache.js";
+import { AtCoderToolsMetadata } from "./types.js";
+import { logError } from "./utils.js";
+
+export class InputGenManager {
+  private browserManager: BrowserManager;
+  private configManager: ConfigManager;
+  private problemCache?: ProblemCache;
+
+  constructor(browserManager: BrowserManager, configManager: ConfigManager) {
+    this.browserManager = browserManager;
+    this.configManager = configManager;
+  }
+
+  /**
+   * Generate random inputs from the input format and constraints of the current problem
+   * and save them as random_1.txt, random_2.txt, ...
+   * Options: `--count N`, `--seed S` (reproducible inputs), `--size-limit N` (upper limit of sizes).
+   */
+  async run(args: string[]): Promise<void> {
+    const options = this.parseOptions(args);
+    if (!options) {
+      return;
+    }
+
+    const inputs = await this.synthesize("random", options.count, options.seed, options.sizeLimit);
+    if (!inputs) {
+      return;
+    }
+
+    let n = 1;
+    for (const input of inputs) {
+      while (fs.existsSync(`random_${n}.txt`)) {
+        n++;
+      }
+      fs.writeFileSync(`random_${n}.txt`, input);
+      console.log(`Saved random input to random_${n}.txt`);
+    }
+  }
+
+  /**
+   * Synthesize inputs for the problem of metadata.json in the current directory, or of the page open in the browser.
+   * The page is taken from the problem cache when it was fetched before.
+   * @returns The inputs, or undefined if the problem could not be parsed
+   */
+  async synthesize(
+    mode: SynthesisMode,
+    count: number,
+    seed?: number,
+    sizeLimit?: number,
+  ): Promise<string[] | undefined> {
+    const task = this.getTask();
+    if (!task) {
+      logError("Could not find the problem. Run this in a problem directory or open a problem page.");
+      return undefined;
+    }
+
+    const url = `https://atcoder.jp/contests/${task.contestId}/tasks/${task.taskId}`;
+    const fetchHtml = (): Promise<string | undefined> => this.browserManager.fetchRawHtml(url);
+    this.problemCache ??= createProblemCache(this.configManager);
+    const html = this.problemCache ? await this.problemCache.getOrFetch(task.taskId, fetchHtml) : await fetchHtml();
+    if (!html) {
+      logError("Could not get page content.");
+      return undefined;
+    }
+
+    try {
+      const synthesizer = new InputSynthesizer(generateParseResult(html, task.taskId, url));
+      return Array.from({ length: count }, (_, i) =>
+        synthesizer.generate({ mode, seed: seed !== undefined ? seed + i : undefined, sizeLimit }),
+      );
+    } catch (e) {
+      logError("input generation", e);
+      return undefined;
+    }
+  }
+
+  private getTask(): { contestId: string; taskId: string } | undefined {
+    if (fs.existsSync("metadata.json")) {
+      const metadata: AtCoderToolsMetadata = JSON.parse(fs.readFileSync("metadata.json", "utf-8"));
+      const contestId = metadata.problem?.contest?.contest_id;
+      const taskId = metadata.problem?.problem_id;
+      if (contestId && taskId) {
+        return { contestId, taskId };
+      }
+    }
+    const match = this.browserManager.getCurrentUrl()?.match(/\w+:\/\/atcoder\.jp\/contests\/(\w+)\/tasks\/(\w+)/);
+    return match ? { contestId: match[1], taskId: match[2] } : undefined;
+  }
+
+  private parseOptions(args: string[]): { count: number; seed?: number; sizeLimit?: number } | undefined {
+    const readNumber = (names: string[]): number | null | undefined => {
+      const idx = args.findIndex((arg) => names.includes(arg));
+      if (idx === -1) {
+        return undefined;
+      }
+      const value = Number(args[idx + 1]);
+      if (!Number.isInteger(value) || value < 0) {
+        logError(`Invalid value for ${args[idx]}: ${args[idx + 1] ?? ""}`);
+        return null;
+      }
+      return value;
+    };
+
+    const count = readNumber(["--count", "-n"]);
+    const seed = readNumber(["--seed"]);
+    const sizeLimit = readNumber(["--size-limit"]);
+    if (count === null || seed === null || sizeLimit === null) {
+      return undefined;
+    }
+    return { count: count || 1, seed, sizeLimit };
+  }
+}
@@ -2,16 +2,33 @@ import fs from "fs";
 import path from "path";
 import * as cheerio from "cheerio";
 import { BrowserManager } from "./browser.js";
-import { CPlusPlusGenerator } from "./generator/cplusplus.js";
-import { PythonGenerator } from "./generator/python.js";
+import { TemplateGenerator } from "./generator/template-generator.js";
 import { generateParseResult } from "./generator/pipeline.js";
 import { ConfigManager } from "./config.js";
-import { AtCoderToolsMetadata } from "./types";
-import { expandHomeDir, compactHomeDir, logError, executeCommand, getSourceFilename } from "./utils.js";
+import { AtCoderToolsMetadata, SampleCaseLines } from "./types";
+import { Sample } from "./analyzer/html-parser.js";
+import { LanguageRegistry, DEFAULT_LANGUAGE } from "./languages.js";
+import { mapWithConcurrency, RateLimiter } from "./concurrency.js";
+import { ProblemCache, createProblemCache } from "./problem-cache.js";
+import { expandHomeDir, compactHomeDir, logError, executeCommand } from "./utils.js";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_REQUEST_INTERVAL_MS = 200;
+// With --wait, the tasks page is polled at this interval after the start time until the problems are visible
+const WAIT_RETRY_INTERVAL_MS = 2000;
+const WAIT_MAX_RETRIES = 60;
+
+interface ContestProblem {
+  alphabet: string;
+  id: string;
+  url: string;
+}
 
 export class GenManager {
   private browserManager: BrowserManager;
   private configManager: ConfigManager;
+  private rateLimiter?: RateLimiter;
+  private problemCache?: ProblemCache;
 
   constructor(browserManager: BrowserManager, configManager: ConfigManager) {
     this.browserManager = browserManager;
@@ -20,40 +37,33 @@ export class GenManager {
 
   async run(args: string[]): Promise<void> {
     const config = this.configManager.getConfig();
-    let lang = config.language || "cpp";
+    let lang = config.language || DEFAULT_LANGUAGE;
     const langIdx = args.findIndex((arg) => arg === "--lang" || arg === "-l");
     if (langIdx !== -1 && langIdx + 1 < args.length) {
       lang = args[langIdx + 1].toLowerCase();
       args.splice(langIdx, 2);
     }
+    const waitIdx = args.indexOf("--wait");
+    const wait = waitIdx !== -1;
+    if (wait) {
+      args.splice(waitIdx, 1);
+    }
 
     if (args.length > 1) {
       const contestId = args[1];
       console.log(`Generating directories for contest: ${contestId} (Language: ${lang})`);
 
-      const contestUrl = `https://atcoder.jp/contests/${contestId}/tasks`;
-
-      const html = await this.browserManager.fetchRawHtml(contestUrl);
-      if (!html) {
+      let problems = await this.fetchProblems(contestId);
+      if (!problems) {
         logError("Could not get page content.");
         return;
       }
-
-      const $ = cheerio.load(html);
-      const problems: { alphabet: string; id: string; url: string }[] = [];
-      $("tbody > tr").each((_, element) => {
-        const alphabet = $(element).find("td:first-child a").text().trim();
-        const link = $(element).find("td:nth-child(2) a");
-        const problemUrl = new URL(link.attr("href") ?? "", "https://atcoder.jp").href;
-        const problemId = problemUrl.split("/").pop() ?? "";
-
-        if (alphabet && problemId && problemUrl) {
-          problems.push({ alphabet, id: problemId, url: problemUrl });
-        }
-      });
+      if (problems.length === 0 && wait) {
+        problems = await this.waitForProblems(contestId);
+      }
 
       if (problems.length === 0) {
-        logError("No problems found on the contest page.");
+        logError(`No problems found on the contest page.${wait ? "" : " Use 'gen --wait' before the contest starts."}`);
         return;
       }
 
@@ -73,23 +83,24 @@ export class GenManager {
         fs.mkdirSync(contestDirPath, { recursive: true });
       }
 
-      let results = [];
-      for (const problem of problems) {
+      // Problems are generated in parallel; the rate limiter in generateCode spaces out the requests
+      const concurrency = Math.max(1, config.genConcurrency ?? DEFAULT_CONCURRENCY);
+      let finished = 0;
+      const results = await mapWithConcurrency(problems, concurrency, async (problem) => {
         const problemDirPath = path.join(contestDirPath, problem.alphabet);
         if (!fs.existsSync(problemDirPath)) {
           fs.mkdirSync(problemDirPath, { recursive: true });
         }
 
-        results.push({
-          id: problem.alphabet,
-          success: await this.generateCode(contestId, problem.id, problemDirPath, lang, problem.alphabet),
-        });
-      }
+        const success = await this.generateCode(contestId, problem.id, problemDirPath, lang, problem.alphabet);
+        finished++;
+        console.log(`[${finished}/${problems.length}] Problem ${problem.alphabet}: ${formatStatus(success)}`);
+        return { id: problem.alphabet, success };
+      });
 
       console.log(`${contestId} code generation results:`);
       for (const result of results) {
-        const status = result.success ? "\x1b[32mSUCCEEDED\x1b[0m" : "\x1b[31mFAILED\x1b[0m";
-        console.log(`  Problem ${result.id}: ${status}`);
+        console.log(`  Problem ${result.id}: ${formatStatus(result.success)}`);
       }
 
       process.chdir(contestDirPath);
@@ -105,8 +116,10 @@ export class GenManager {
 
       const contestId = match[1],
         taskId = match[2];
-      const code_filename = getSourceFilename(lang);
-      console.log(`Generating ${code_filename} for task: ${taskId}`);
+      const filenames = new LanguageRegistry(this.configManager)
+        .getAll(lang)
+        .map((language) => language.sourceFilename);
+      console.log(`Generating ${filenames.join(", ")} for task: ${taskId}`);
       await this.generateCode(contestId, taskId, ".", lang);
     }
   }
@@ -115,7 +128,7 @@ export class GenManager {
     contestId: string,
     taskId: string,
     savePath: string,
-    lang: string = "cpp",
+    lang: string = DEFAULT_LANGUAGE,
     alphabet?: string,
   ): Promise<boolean> {
     const config = this.configManager.getConfig();
@@ -135,18 +148,22 @@ export class GenManager {
 
     executeCommand(config.preProcess?.execOnEachProblemDir, savePath);
 
-    await new Promise((_) => setTimeout(_, 500));
     try {
-      const html = await this.browserManager.fetchRawHtml(url);
+      const html = await this.fetchProblemHtml(taskId, url);
       if (html) {
         const {
           multipleCases,
           queryType,
+          queryVariants,
+          graph,
           judgeType,
           errorTolerance,
           yesStr,
           noStr,
           mod,
+          timeLimitMs,
+          memoryLimitMb,
+          constraints,
           returnType,
           multipleColumns,
           multipleRows,
@@ -158,29 +175,12 @@ export class GenManager {
 
         if (!formatTree) throw new Error("Format tree is undefined");
 
-        let code = "";
-        const filename = getSourceFilename(lang);
-
-        if (lang === "python" || lang === "py") {
-          console.log("Generating Python Code...");
-          const generator = new PythonGenerator(this.configManager);
-          code = generator.generate(
-            formatTree,
-            variables,
-            multipleCases,
-            queryType,
-            yesStr,
-            noStr,
-            mod,
-            returnType,
-            multipleColumns,
-            multipleRows,
-            variableArray,
-          );
-        } else {
-          console.log("Generating C++ Code...");
-          const generator = new CPlusPlusGenerator(this.configManager);
-          code = generator.generate(
+        const languages = new LanguageRegistry(this.configManager).getAll(lang);
+        for (const language of languages) {
+          const filename = language.sourceFilename;
+          console.log(`Generating ${language.name} Code...`);
+          const generator = new TemplateGenerator(language.id, this.configManager);
+          const code = generator.generate(
             formatTree,
             variables,
             multipleCases,
@@ -192,20 +192,30 @@ export class GenManager {
             multipleColumns,
             multipleRows,
             variableArray,
+            constraints,
+            queryVariants,
+            graph,
           );
-        }
 
-        fs.writeFileSync(path.join(savePath, filename), code);
-        console.log(`Saved ${lang} code to ${filename}`);
+          fs.writeFileSync(path.join(savePath, filename), code);
+          console.log(`Saved ${language.id} code to ${filename}`);
+          for (const [projectFilename, templateName] of Object.entries(language.projectFiles ?? {})) {
+            if (!fs.existsSync(path.join(savePath, projectFilename))) {
+              fs.writeFileSync(path.join(savePath, projectFilename), generator.readProjectFile(templateName));
+              console.log(`Saved project file to ${projectFilename}`);
+            }
+          }
+        }
 
         const metadata: AtCoderToolsMetadata = {
-          code_filename: filename,
+          code_filename: languages[0].sourceFilename,
+          code_filenames: languages.map((language) => language.sourceFilename),
           judge: {
             judge_type: judgeType,
             error_type: "absolute_or_relative",
             diff: errorTolerance,
           },
-          lang: lang === "python" || lang === "py" ? "python" : "cpp",
+          lang: languages[0].id,
           problem: {
             alphabet: alphabet || taskId.split("_").pop()?.toUpperCase() || "",
             contest: {
@@ -215,11 +225,23 @@ export class GenManager {
           },
           sample_in_pattern: "in_*.txt",
           sample_out_pattern: "out_*.txt",
-          timeout_ms: 2000,
+          timeout_ms: timeLimitMs ?? 2000,
+          memory_limit_mb: memoryLimitMb,
+          constraints,
+          sample_cases: getSampleCases(samples),
         };
 
         fs.writeFileSync(path.join(savePath, "metadata.json"), JSON.stringify(metadata, null, 2));
         console.log(`Saved metadata.json to ${savePath}`);
+        if (judgeType === "interactive") {
+          console.log(
+            'Interactive problem: set "judge_program" in metadata.json to your local judge (it receives in_*.txt as its argument).',
+          );
+        } else if (judgeType === "multisolution") {
+          console.log(
+            'Multiple answers are accepted: set "checker" in metadata.json to a checker called as "checker input output answer".',
+          );
+        }
 
         samples.forEach((sample, index) => {
           const inFilename = `in_${index + 1}.txt`;
@@ -245,4 +267,138 @@ export class GenManager {
     }
     return false;
   }
+
+  /**
+   * Fetch the problem list of the contest
+   * @returns The problems, which are empty before the contest starts, or undefined if the page could not be fetched
+   */
+  private async fetchProblems(contestId: string): Promise<ContestProblem[] | undefined> {
+    const html = await this.browserManager.fetchRawHtml(`https://atcoder.jp/contests/${contestId}/tasks`);
+    if (!html) {
+      return undefined;
+    }
+
+    const $ = cheerio.load(html);
+    const problems: ContestProblem[] = [];
+    $("tbody > tr").each((_, element) => {
+      const alphabet = $(element).find("td:first-child a").text().trim();
+      const link = $(element).find("td:nth-child(2) a");
+      const problemUrl = new URL(link.attr("href") ?? "", "https://atcoder.jp").href;
+      const problemId = problemUrl.split("/").pop() ?? "";
+
+      if (alphabet && problemId && problemUrl) {
+        problems.push({ alphabet, id: problemId, url: problemUrl });
+      }
+    });
+    return problems;
+  }
+
+  /**
+   * Count down to the start time read from the contest page, then poll the tasks page until the problems are visible
+   */
+  private async waitForProblems(contestId: string): Promise<ContestProblem[]> {
+    const contestHtml = await this.browserManager.fetchRawHtml(`https://atcoder.jp/contests/${contestId}`);
+    const startTime = contestHtml ? parseContestStartTime(contestHtml) : undefined;
+    if (startTime) {
+      console.log(`Contest starts at ${startTime.toLocaleString()}.`);
+      await countDown(startTime);
+    } else {
+      console.log("Could not read the start time of the contest. Waiting for the problems to be visible...");
+    }
+
+    for (let retry = 0; retry < WAIT_MAX_RETRIES; retry++) {
+      const problems = await this.fetchProblems(contestId);
+      if (problems && problems.length > 0) {
+        return problems;
+      }
+      console.log(`Problems are not visible yet. Retrying in ${WAIT_RETRY_INTERVAL_MS / 1000}s...`);
+      await sleep(WAIT_RETRY_INTERVAL_MS);
+    }
+    return [];
+  }
+
+  /**
+   * Fetch the problem page through the problem cache, which is only used with the user config (i.e. not in tests)
+   */
+  private async fetchProblemHtml(taskId: string, url: string): Promise<string | undefined> {
+    const fetchHtml = async (): Promise<string | undefined> => {
+      await this.getRateLimiter().wait();
+      return this.browserManager.fetchRawHtml(url);
+    };
+    this.problemCache ??= createProblemCache(this.configManager);
+    return this.problemCache ? this.problemCache.getOrFetch(taskId, fetchHtml) : fetchHtml();
+  }
+
+  private getRateLimiter(): RateLimiter {
+    this.rateLimiter ??= new RateLimiter(
+      this.configManager.getConfig().genRequestIntervalMs ?? DEFAULT_REQUEST_INTERVAL_MS,
+    );
+    return this.rateLimiter;
+  }
+}
+
+/**
+ * Line counts of the cases of each sample that was split into cases, so that "test" can tell which case failed
+ */
+function getSampleCases(samples: Sample[]): Record<string, SampleCaseLines> | undefined {
+  const sampleCases: Record<string, SampleCaseLines> = {};
+  samples.forEach((sample, index) => {
+    if (sample.cases) {
+      sampleCases[String(index + 1)] = {
+        input_lines: sample.cases.map((c) => c.input.split("\n").length),
+        output_lines: sample.cases.map((c) => c.output.split("\n").length),
+      };
+    }
+  });
+  return Object.keys(sampleCases).length > 0 ? sampleCases : undefined;
+}
+
+function formatStatus(success: boolean): string {
+  return success ? "\x1b[32mSUCCEEDED\x1b[0m" : "\x1b[31mFAILED\x1b[0m";
+}
+
+/**
+ * Read the start time of a contest from its top page
+ */
+export function parseContestStartTime(html: string): Date | undefined {
+  // The page script has `var startTime = moment("2025-04-05T21:00:00+09:00");`
+  const script = html.match(/startTime\s*=\s*moment\("([^"]+)"\)/);
+  // "Contest Duration" shows <time class="fixtime fixtime-full">2025-04-05 21:00:00+0900</time>
+  const fixtime = cheerio.load(html)("time.fixtime-full").first().text().trim();
+  const text = script?.[1] ?? fixtime.replace(" ", "T").replace(/([+-]\d{2})(\d{2})$/, "$1:$2");
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Format the remaining time as "1d 02:03:04" or "02:03:04"
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hms = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${hms}` : hms;
+}
+
+async function countDown(startTime: Date): Promise<void> {
+  let remaining = startTime.getTime() - Date.now();
+  while (remaining > 0) {
+    if (process.stdout.isTTY) {
+      process.stdout.write(`\rContest starts in ${formatCountdown(remaining)} `);
+    }
+    await sleep(Math.min(1000, remaining));
+    remaining = startTime.getTime() - Date.now();
+  }
+  if (process.stdout.isTTY) {
+    process.stdout.write("\n");
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
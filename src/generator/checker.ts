@@ -5,6 +5,7 @@ import { CPlusPlusGenerator } from "./cplusplus.js";
 import { fetchProblemContent } from "./fetcher.js";
 import { generateParseResult } from "./pipeline.js";
 import { ConfigManager } from "../config.js";
+import { createProblemCache } from "../problem-cache.js";
 import { logError } from "../utils.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -31,12 +32,15 @@ async function main() {
   const resultPath = path.join(TEMP_DIR, `${taskId}.json`);
 
   try {
-    const html = await fetchProblemContent(taskId);
+    // Share the problem pages cached by "gen", following the user config
+    const html = await fetchProblemContent(taskId, createProblemCache(new ConfigManager(true)));
 
     // Pipeline
     const {
       multipleCases,
       queryType,
+      queryVariants,
+      graph,
       yesStr,
       noStr,
       mod,
@@ -44,6 +48,7 @@ async function main() {
       multipleColumns,
       multipleRows,
       variableArray,
+      constraints,
       samples,
       variables,
       formatTree,
@@ -95,6 +100,9 @@ async function main() {
         multipleColumns,
         multipleRows,
         variableArray,
+        constraints,
+        queryVariants,
+        graph,
       );
       const pyPath = path.join(TEMP_DIR, `${taskId}.py`);
       fs.writeFileSync(pyPath, code);
@@ -114,6 +122,9 @@ async function main() {
         multipleColumns,
         multipleRows,
         variableArray,
+        constraints,
+        queryVariants,
+        graph,
       );
       fs.writeFileSync(cppPath, code);
       console.log(`Saved C++ code to ${cppPath}`);
@@ -209,6 +209,50 @@ describe("CPlusPlusGenerator", () => {
     }
   });
 
+  it("should declare int when int32 is configured and the constraints fit in 32 bits", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "atcoder-gui-test-"));
+
+    try {
+      const defaultConfig = fs.readFileSync(path.join(__dirname, "config", "cpp.json5"), "utf-8");
+      fs.writeFileSync(path.join(tempDir, "cpp.json5"), defaultConfig.replace("// int32:", "int32:"));
+      const mockConfigManager = {
+        getConfigDirPath: () => tempDir,
+        isUserConfigEnabled: () => true,
+      } as unknown as ConfigManager;
+
+      const format: FormatNode = {
+        type: "format",
+        children: [{ type: "item", name: "N", indices: [] } as any, { type: "item", name: "K", indices: [] } as any],
+      };
+      const variables = [
+        { name: "N", type: VarType.ValueInt, dims: 0, indices: [] },
+        { name: "K", type: VarType.ValueInt, dims: 0, indices: [] },
+      ];
+
+      const generator = new CPlusPlusGenerator(mockConfigManager);
+      const code = generator.generate(
+        format,
+        variables,
+        false,
+        false,
+        undefined,
+        undefined,
+        undefined,
+        "void",
+        false,
+        false,
+        false,
+        { N: { min: 1, max: 200000 }, K: { min: 1, max: 1e18 } },
+      );
+
+      expect(code).toContain("int N;");
+      expect(code).toContain("int64_t K;");
+      expect(code).toContain("void solve(int N, int64_t K)");
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
   it("should group declarations for variables of the same type and dimensions", () => {
     // Input: N, M, A_1 ... A_N, B_1 ... B_N
     const N_Ref: any = { type: "ident", value: "N" };
@@ -1,83 +1,11 @@
-import nunjucks from "nunjucks";
-import fs from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
-import JSON5 from "json5";
-import { UniversalGenerator } from "./universal.js";
-import { CodeGeneratorConfig } from "./types.js";
-import { FormatNode, VarType, ASTNode } from "../analyzer/types.js";
+import { TemplateGenerator } from "./template-generator.js";
 import { ConfigManager } from "../config.js";
 
-// Resolve paths relative to this file
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const DEFAULT_CONFIG_PATH = path.join(__dirname, "config", "cpp.json5");
-const DEFAULT_TEMPLATE_PATH = path.join(__dirname, "templates", "cpp.njk");
-
-export class CPlusPlusGenerator {
-  private generator: UniversalGenerator;
-  private template: string;
-
+/**
+ * C++ code generator using cpp.json5 / cpp.njk
+ */
+export class CPlusPlusGenerator extends TemplateGenerator {
   constructor(configManager?: ConfigManager) {
-    let configPath = DEFAULT_CONFIG_PATH;
-    let templatePath = DEFAULT_TEMPLATE_PATH;
-
-    if (configManager?.isUserConfigEnabled()) {
-      const configDir = configManager.getConfigDirPath();
-      const localCppJson5Path = path.join(configDir, "cpp.json5");
-      const localCppNjkPath = path.join(configDir, "cpp.njk");
-
-      if (fs.existsSync(localCppJson5Path)) {
-        configPath = localCppJson5Path;
-        console.log(`Using local config: ${configPath}`);
-      }
-      if (fs.existsSync(localCppNjkPath)) {
-        templatePath = localCppNjkPath;
-        console.log(`Using local template: ${templatePath}`);
-      }
-    }
-
-    const configContent = fs.readFileSync(configPath, "utf-8");
-    const config = JSON5.parse(configContent) as CodeGeneratorConfig;
-    this.generator = new UniversalGenerator(config);
-    this.template = fs.readFileSync(templatePath, "utf-8").replaceAll("%}\r\n", "%}").replaceAll("%}\n", "%}");
-
-    // Configure nunjucks
-    nunjucks.configure({ autoescape: false });
-  }
-
-  generate(
-    format: FormatNode,
-    variables: {
-      name: string;
-      type: VarType;
-      dims: number;
-      indices: ASTNode[];
-    }[],
-    multipleCases?: boolean,
-    queryCases?: boolean,
-    yesStr?: string,
-    noStr?: string,
-    mod?: number,
-    returnType: string = "void",
-    multipleColumns?: boolean,
-    multipleRows?: boolean,
-    variableArray?: boolean,
-  ): string {
-    const context = this.generator.generate(
-      format,
-      variables,
-      multipleCases,
-      queryCases,
-      yesStr,
-      noStr,
-      mod,
-      returnType,
-      multipleColumns,
-      multipleRows,
-      variableArray,
-    );
-    return nunjucks.renderString(this.template, context);
+    super("cpp", configManager);
   }
 }
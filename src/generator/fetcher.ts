@@ -1,42 +1,31 @@
-import fs from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
+import { ProblemCache } from "../problem-cache.js";
 import { logError } from "../utils.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_ROOT = path.resolve(__dirname, "../../");
-const CACHE_DIR = path.join(PROJECT_ROOT, ".cache");
-
-// Ensure cache directory exists
-if (!fs.existsSync(CACHE_DIR)) {
-  fs.mkdirSync(CACHE_DIR, { recursive: true });
-}
-
-export async function fetchProblemContent(taskId: string): Promise<string> {
+/**
+ * Fetch a problem page, through the problem cache shared with "gen" if one is given
+ */
+export async function fetchProblemContent(taskId: string, problemCache?: ProblemCache): Promise<string> {
   const problemId = taskId.split("_").at(-1) || "";
   const contestId = taskId.slice(0, taskId.length - (problemId.length + 1));
   const url = `https://atcoder.jp/contests/${contestId}/tasks/${taskId}`;
 
-  const cachePath = path.join(CACHE_DIR, `${taskId}.html`);
-
-  if (fs.existsSync(cachePath)) {
-    console.log(`Using cached HTML: ${cachePath}`);
-    return fs.readFileSync(cachePath, "utf-8");
-  } else {
+  const fetchHtml = async (): Promise<string> => {
     console.log(`Fetching ${url}...`);
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
-      }
-      const html = await response.text();
-      fs.writeFileSync(cachePath, html);
-      console.log(`Saved HTML to ${cachePath}`);
-      return html;
-    } catch (e) {
-      logError(`fetching URL: ${url}`, e);
-      throw e;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  };
+
+  try {
+    const html = problemCache ? await problemCache.getOrFetch(taskId, fetchHtml) : await fetchHtml();
+    if (html === undefined) {
+      throw new Error(`Empty response from ${url}`);
     }
+    return html;
+  } catch (e) {
+    logError(`fetching URL: ${url}`, e);
+    throw e;
   }
 }
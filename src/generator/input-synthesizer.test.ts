@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import { InputSynthesizer } from "./input-synthesizer";
+import { Lexer } from "../analyzer/lexer";
+import { Parser } from "../analyzer/parser";
+import { Analyzer } from "../analyzer/analyzer";
+import { inferTypesFromInstances } from "../analyzer/typing";
+import { parseConstraints } from "../analyzer/constraints";
+import { VariableExtractor } from "./variable-extractor";
+
+function createSynthesizer(inputFormat: string, sample: string, constraints: string[], multipleCases = false) {
+  const formatTree = new Analyzer().analyze(new Parser(new Lexer(inputFormat).tokenize()).parse());
+  const { types, collapsedVars, collapsedAst } = inferTypesFromInstances(formatTree, [sample]);
+  const extractor = new VariableExtractor();
+  extractor.setCollapsedVars(collapsedVars);
+  extractor.extract(formatTree);
+  return new InputSynthesizer({
+    formatTree: collapsedAst,
+    variables: extractor.getVariables(types),
+    constraints: parseConstraints(constraints),
+    inputFormat,
+    multipleCases,
+    queryType: false,
+  });
+}
+
+const toLines = (input: string) => input.trimEnd().split("\n");
+
+describe("InputSynthesizer", () => {
+  it("should generate a horizontal array within the constraints", () => {
+    const synthesizer = createSynthesizer("N\na_1 a_2 \\ldots a_N", "3\n1 2 3\n", [
+      "1 \\le N \\le 2 \\times 10^5",
+      "1 \\le a_i \\le 100",
+    ]);
+
+    for (let seed = 0; seed < 20; seed++) {
+      const [n, a] = toLines(synthesizer.generate({ seed }));
+      const values = a.split(" ").map(Number);
+      expect(Number(n)).toBeLessThanOrEqual(10);
+      expect(values).toHaveLength(Number(n));
+      expect(values.every((v) => v >= 1 && v <= 100)).toBe(true);
+    }
+  });
+
+  it("should reproduce the same input for the same seed", () => {
+    const synthesizer = createSynthesizer("N\na_1 a_2 \\ldots a_N", "3\n1 2 3\n", ["1 \\le N \\le 10"]);
+
+    expect(synthesizer.generate({ seed: 42 })).toBe(synthesizer.generate({ seed: 42 }));
+  });
+
+  it("should put vertical items on separate lines and keep dependent bounds", () => {
+    const synthesizer = createSynthesizer("N M\nA_1 B_1\n\\vdots\nA_M B_M", "3 2\n1 2\n2 3\n", [
+      "2 \\le N \\le 10",
+      "1 \\le M \\le 10",
+      "1 \\le A_i < B_i \\le N",
+    ]);
+
+    for (let seed = 0; seed < 20; seed++) {
+      const [header, ...edges] = toLines(synthesizer.generate({ seed }));
+      const [n, m] = header.split(" ").map(Number);
+      expect(edges).toHaveLength(m);
+      for (const edge of edges) {
+        const [a, b] = edge.split(" ").map(Number);
+        expect(a).toBeGreaterThanOrEqual(1);
+        expect(a).toBeLessThan(b);
+        expect(b).toBeLessThanOrEqual(n);
+      }
+    }
+  });
+
+  it("should keep a variable that bounds other variables small", () => {
+    const synthesizer = createSynthesizer("N M\nu_1 v_1\n\\vdots\nu_M v_M", "3 2\n1 2\n2 3\n", [
+      "2 \\le N \\le 2 \\times 10^5",
+      "1 \\le M \\le 10",
+      "1 \\le u_i, v_i \\le N",
+    ]);
+
+    for (let seed = 0; seed < 20; seed++) {
+      const [header, ...edges] = toLines(synthesizer.generate({ seed }));
+      const n = Number(header.split(" ")[0]);
+      expect(n).toBeLessThanOrEqual(10);
+      expect(edges.flatMap((edge) => edge.split(" ").map(Number)).every((v) => v >= 1 && v <= n)).toBe(true);
+    }
+  });
+
+  it("should generate a grid of strings over the given alphabet", () => {
+    const synthesizer = createSynthesizer("H W\nS_1\n\\vdots\nS_H", "2 3\n#..\n.##\n", [
+      "1 \\le H, W \\le 500",
+      "S_i is a string of length W consisting of . and #.",
+    ]);
+
+    const [header, ...rows] = toLines(synthesizer.generate({ seed: 1 }));
+    const [h, w] = header.split(" ").map(Number);
+    expect(rows).toHaveLength(h);
+    expect(rows.every((row) => row.length === w && /^[.#]+$/.test(row))).toBe(true);
+  });
+
+  it("should set every variable to its upper bound in max mode", () => {
+    const synthesizer = createSynthesizer(
+      "N\nA_{1,1} \\ldots A_{1,N}\n\\vdots\nA_{N,1} \\ldots A_{N,N}",
+      "2\n1 2\n3 4\n",
+      ["1 \\le N \\le 3", "0 \\le A_{i,j} \\le 9"],
+    );
+
+    expect(synthesizer.generate({ mode: "max" })).toBe("3\n9 9 9\n9 9 9\n9 9 9\n");
+  });
+
+  it("should keep distinct elements pairwise distinct", () => {
+    const synthesizer = createSynthesizer("N\nP_1 \\ldots P_N", "3\n2 3 1\n", [
+      "1 \\le N \\le 5",
+      "1 \\le P_i \\le N",
+      "P_i \\neq P_j (i \\neq j)",
+    ]);
+
+    expect(synthesizer.generate({ mode: "max" })).toBe("5\n5 4 3 2 1\n");
+    for (let seed = 0; seed < 10; seed++) {
+      const [n, p] = toLines(synthesizer.generate({ seed }));
+      expect(new Set(p.split(" ")).size).toBe(Number(n));
+    }
+  });
+
+  it("should fill a large array of distinct elements in linear time", () => {
+    const synthesizer = createSynthesizer("N\nA_1 \\ldots A_N", "3\n5 1 4\n", [
+      "1 \\le N \\le 2 \\times 10^5",
+      "1 \\le A_i \\le 10^9",
+      "A_i \\neq A_j (i \\neq j)",
+    ]);
+
+    const start = performance.now();
+    const [n, a] = toLines(synthesizer.generate({ mode: "max" }));
+    expect(performance.now() - start).toBeLessThan(2000);
+
+    const values = a.split(" ").map(Number);
+    expect(Number(n)).toBe(200000);
+    expect(new Set(values).size).toBe(200000);
+    expect(values.slice(0, 3)).toEqual([1e9, 1e9 - 1, 1e9 - 2]);
+  });
+
+  it("should prepend the number of cases for multiple test cases", () => {
+    const synthesizer = createSynthesizer(
+      "N\na_1 \\ldots a_N",
+      "2\n1 2\n",
+      ["1 \\le T \\le 2", "1 \\le N \\le 2"],
+      true,
+    );
+
+    expect(synthesizer.generate({ mode: "max" })).toBe("2\n2\n10 10\n2\n10 10\n");
+  });
+
+  it("should keep the sizes within the bound on their sum over all test cases", () => {
+    const constraints = [
+      "1 \\le T \\le 10^4",
+      "1 \\le N \\le 2 \\times 10^5",
+      "1 \\le a_i \\le 10^9",
+      "The sum of N over all test cases is at most 2 \\times 10^5.",
+    ];
+    const synthesizer = createSynthesizer("N\na_1 \\ldots a_N", "2\n1 2\n", constraints, true);
+
+    const lines = toLines(synthesizer.generate({ mode: "max" }));
+    expect(lines[0]).toBe("1");
+    expect(lines[1]).toBe("200000");
+    expect(lines[2].split(" ")).toHaveLength(200000);
+  });
+
+  it("should share the bound on a sum among the random test cases", () => {
+    const synthesizer = createSynthesizer(
+      "N\na_1 \\ldots a_N",
+      "2\n1 2\n",
+      ["1 \\le T \\le 10", "1 \\le N \\le 10", "\\sum_{i=1}^{T} N_i \\le 20"],
+      true,
+    );
+
+    const caseCounts = new Set<number>();
+    for (let seed = 0; seed < 20; seed++) {
+      const [t, ...lines] = toLines(synthesizer.generate({ seed }));
+      const sizes = lines.filter((_, i) => i % 2 === 0).map(Number);
+      expect(sizes).toHaveLength(Number(t));
+      expect(sizes.reduce((sum, n) => sum + n, 0)).toBeLessThanOrEqual(20);
+      caseCounts.add(Number(t));
+    }
+    // The number of cases stays random; only the sizes are shrunk
+    expect(caseCounts.size).toBeGreaterThan(1);
+    expect(Math.max(...caseCounts)).toBeGreaterThan(2);
+  });
+});
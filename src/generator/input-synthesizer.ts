@@ -0,0 +1,446 @@
+import { Lexer } from "../analyzer/lexer.js";
+import { Parser } from "../analyzer/parser.js";
+import {
+  ASTNode,
+  BinOpNode,
+  FormatNode,
+  GridNode,
+  ItemNode,
+  LoopNode,
+  NumberNode,
+  VarType,
+} from "../analyzer/types.js";
+import { Bound, Constraints, resolveBound } from "../analyzer/constraints.js";
+import { VariableInfo } from "./variable-extractor.js";
+import { ParseResult } from "./pipeline.js";
+
+export type SynthesisMode = "random" | "max";
+
+export interface SynthesisOptions {
+  mode?: SynthesisMode;
+  seed?: number;
+  /** Upper limit of sizes (loop bounds and string lengths) in random mode, to keep the inputs small */
+  sizeLimit?: number;
+}
+
+const DEFAULT_SIZE_LIMIT = 10;
+const DEFAULT_MIN = 1;
+const DEFAULT_MAX = 10;
+const DEFAULT_CHARSET = "abcdefghijklmnopqrstuvwxyz";
+// Attempts to draw a value that differs from the previous ones before falling back to a scan
+const MAX_DISTINCT_ATTEMPTS = 100;
+
+/**
+ * Synthesize inputs that follow the parsed input format and constraints
+ */
+export class InputSynthesizer {
+  private formatTree: FormatNode;
+  private types: Map<string, VarType>;
+  private constraints: Constraints;
+  private multipleCases: boolean;
+  private lineEnds = new Set<string>();
+  private verticalNames = new Set<string>();
+  private sizeNames = new Set<string>();
+
+  private mode: SynthesisMode = "random";
+  private sizeLimit = DEFAULT_SIZE_LIMIT;
+  private random: () => number = Math.random;
+  private values = new Map<string, number>();
+  // Values already taken by each variable with pairwise distinct elements
+  private used = new Map<string, Set<string>>();
+  // Where the search for the largest unused value of each of these variables resumes
+  private unusedCursors = new Map<string, number>();
+  // What remains of the bounds on sums over all test cases, and the number of cases left to share it
+  private sumBudgets = new Map<string, number>();
+  private casesLeft = 1;
+  private lines: string[] = [];
+  private tokens: string[] = [];
+
+  constructor(
+    parseResult: Pick<
+      ParseResult,
+      "formatTree" | "variables" | "constraints" | "inputFormat" | "multipleCases" | "queryType"
+    >,
+  ) {
+    if (!parseResult.formatTree) {
+      throw new Error("Format tree is undefined");
+    }
+    if (parseResult.queryType) {
+      throw new Error("Input synthesis is not supported for query problems");
+    }
+    this.formatTree = parseResult.formatTree;
+    this.types = new Map(parseResult.variables.map((v: VariableInfo) => [v.name, v.type]));
+    this.constraints = parseResult.constraints;
+    this.multipleCases = parseResult.multipleCases;
+    this.analyzeLayout(new Parser(new Lexer(parseResult.inputFormat).tokenize()).parse());
+    this.collectSizeNames(this.formatTree.children);
+  }
+
+  /**
+   * Generate one input. "random" keeps sizes small for stress testing; "max" puts every variable at its upper bound.
+   */
+  generate(options: SynthesisOptions = {}): string {
+    this.mode = options.mode ?? "random";
+    this.sizeLimit = options.sizeLimit ?? DEFAULT_SIZE_LIMIT;
+    this.random = options.seed !== undefined ? mulberry32(options.seed) : Math.random;
+    this.values.clear();
+    this.used.clear();
+    this.unusedCursors.clear();
+    this.sumBudgets.clear();
+    this.casesLeft = 1;
+    this.lines = [];
+    this.tokens = [];
+
+    if (this.multipleCases) {
+      const cases = this.generateCaseCount();
+      this.emit(String(cases));
+      this.newline();
+      for (let i = 0; i < cases; i++) {
+        this.casesLeft = cases - i;
+        this.values = new Map([["T", cases]]);
+        this.used.clear();
+        this.unusedCursors.clear();
+        this.visit(this.formatTree.children, false);
+        this.newline();
+      }
+    } else {
+      this.visit(this.formatTree.children, false);
+      this.newline();
+    }
+    return this.lines.join("\n") + "\n";
+  }
+
+  /**
+   * Generate the number of test cases. In max mode it is lowered so that every case can still reach the upper bound of
+   * the variables whose sum over all test cases is bounded (T = 1 for N <= 2*10^5 and a sum of N at most 2*10^5);
+   * random inputs keep a random T and shrink the sizes of the cases instead.
+   */
+  private generateCaseCount(): number {
+    for (const [name, constraint] of Object.entries(this.constraints)) {
+      const sumMax = this.resolve(constraint.sumMax ?? constraint.sumMaxLength, "max");
+      if (sumMax !== undefined) {
+        this.sumBudgets.set(name, sumMax);
+      }
+    }
+    const { min } = this.range("T");
+    let cases = this.generateInt("T", true);
+    if (this.mode !== "max") {
+      return cases;
+    }
+    for (const [name, budget] of this.sumBudgets) {
+      const constraint = this.constraints[name];
+      const perCase = this.resolve(constraint.sumMax !== undefined ? constraint.max : constraint.maxLength, "max");
+      if (perCase !== undefined && perCase > 0) {
+        cases = Math.max(min, Math.min(cases, Math.floor(budget / perCase)));
+      }
+    }
+    this.values.set("T", cases);
+    return cases;
+  }
+
+  /**
+   * Upper bound of a variable limited to its share of the budget left for the sum over all test cases
+   */
+  private limitToBudget(name: string, min: number, max: number): number {
+    const budget = this.sumBudgets.get(name);
+    return budget === undefined ? max : Math.max(min, Math.min(max, Math.floor(budget / this.casesLeft)));
+  }
+
+  private spendBudget(name: string, amount: number): void {
+    const budget = this.sumBudgets.get(name);
+    if (budget !== undefined) {
+      this.sumBudgets.set(name, budget - amount);
+    }
+  }
+
+  /**
+   * The analyzed tree has no line breaks, so the layout is taken from the raw format:
+   * which items end a line, and which items are listed vertically (a line with only ⋮ follows them).
+   */
+  private analyzeLayout(raw: FormatNode): void {
+    const lines: ASTNode[][] = [[]];
+    for (const node of raw.children) {
+      if (node.type === "break") {
+        lines.push([]);
+      } else {
+        lines[lines.length - 1].push(node);
+      }
+    }
+
+    const nonEmpty = lines.filter((line) => line.length > 0);
+    nonEmpty.forEach((line, i) => {
+      const items = line.filter((node): node is ItemNode => node.type === "item");
+      if (items.length > 0) {
+        this.lineEnds.add(items[items.length - 1].name);
+      }
+      const next = nonEmpty[i + 1];
+      if (next && next.every((node) => node.type === "dots")) {
+        items.forEach((item) => this.verticalNames.add(item.name));
+      }
+    });
+  }
+
+  /**
+   * Variables used as loop bounds, string lengths or bounds of other variables (N in 1 <= u_i <= N) are sizes, which
+   * are kept small in random mode
+   */
+  private collectSizeNames(nodes: ASTNode[]): void {
+    const collect = (node: ASTNode): void => {
+      if (node.type === "item") {
+        this.sizeNames.add((node as ItemNode).name);
+      } else if (node.type === "binop") {
+        collect((node as BinOpNode).left);
+        collect((node as BinOpNode).right);
+      }
+    };
+    for (const node of nodes) {
+      if (node.type === "loop") {
+        const loop = node as LoopNode;
+        collect(loop.start);
+        collect(loop.end);
+        this.collectSizeNames(loop.body);
+      } else if (node.type === "grid") {
+        collect((node as GridNode).rows);
+        collect((node as GridNode).cols);
+      }
+    }
+    for (const [name, constraint] of Object.entries(this.constraints)) {
+      for (const bound of [constraint.min, constraint.max, constraint.minLength, constraint.maxLength]) {
+        if (typeof bound === "string") {
+          bound
+            .match(/[A-Za-z]\w*/g)
+            ?.filter((size) => size !== name)
+            .forEach((size) => this.sizeNames.add(size));
+        }
+      }
+    }
+  }
+
+  private visit(nodes: ASTNode[], inVerticalLoop: boolean): void {
+    for (const node of nodes) {
+      if (node.type === "item") {
+        const item = node as ItemNode;
+        this.emit(this.generateItem(item));
+        if (!inVerticalLoop && item.indices.length === 0 && this.lineEnds.has(item.name)) {
+          this.newline();
+        }
+      } else if (node.type === "loop") {
+        const loop = node as LoopNode;
+        const vertical = !inVerticalLoop && this.containsVerticalItem(loop.body);
+        const start = this.evaluateNode(loop.start);
+        const end = this.evaluateNode(loop.end);
+        for (let i = start; i <= end; i++) {
+          this.values.set(loop.variable, i);
+          this.clearItems(loop.body);
+          this.visit(loop.body, inVerticalLoop || vertical);
+          if (vertical) {
+            this.newline();
+          }
+        }
+        if (!inVerticalLoop && !vertical) {
+          this.newline();
+        }
+      } else if (node.type === "grid") {
+        this.generateGrid(node as GridNode);
+      }
+    }
+  }
+
+  private generateGrid(grid: GridNode): void {
+    const rows = this.evaluateNode(grid.rows);
+    const cols = this.evaluateNode(grid.cols);
+    const charset = this.constraints[grid.name]?.charset ?? DEFAULT_CHARSET;
+    this.newline();
+    for (let i = 0; i < rows; i++) {
+      this.emit(Array.from({ length: cols }, () => this.pick(charset)).join(""));
+      this.newline();
+    }
+  }
+
+  private generateItem(item: ItemNode): string {
+    const type = this.types.get(item.name) ?? item.inferredType ?? VarType.ValueInt;
+    switch (type) {
+      case VarType.String:
+      case VarType.BinaryString:
+      case VarType.Char:
+        return this.generateString(item.name, type);
+      case VarType.Float: {
+        const { min, max } = this.range(item.name);
+        const value = this.mode === "max" ? max : min + this.random() * (max - min);
+        this.values.set(item.name, value);
+        return value.toFixed(6);
+      }
+      case VarType.Query:
+        throw new Error("Input synthesis is not supported for query problems");
+      default:
+        return String(this.generateInt(item.name, this.sizeNames.has(item.name)));
+    }
+  }
+
+  private generateInt(name: string, isSize: boolean): number {
+    const { min, max: upper } = this.range(name);
+    let max = this.limitToBudget(name, min, upper);
+    if (isSize && this.mode === "random") {
+      max = Math.min(max, Math.max(min, this.sizeLimit));
+    }
+    const draw = (): number => (this.mode === "max" ? max : min + Math.floor(this.random() * (max - min + 1)));
+    // Drawing the upper bound again cannot help in max mode
+    let value = this.drawDistinct(name, draw, this.mode === "max" ? 0 : MAX_DISTINCT_ATTEMPTS);
+    // In max mode, or when random draws keep colliding, take the largest value not used yet
+    const used = this.used.get(name);
+    if (used?.has(String(value))) {
+      value = this.largestUnused(name, used, min, max) ?? value;
+    }
+    used?.add(String(value));
+    this.values.set(name, value);
+    this.spendBudget(name, value);
+    return value;
+  }
+
+  private generateString(name: string, type: VarType): string {
+    const constraint = this.constraints[name];
+    const charset = constraint?.charset ?? (type === VarType.BinaryString ? "01" : DEFAULT_CHARSET);
+    if (type === VarType.Char) {
+      return this.pick(charset);
+    }
+
+    const minLength = Math.max(1, this.resolve(constraint?.minLength, "min") ?? 1);
+    let maxLength = this.limitToBudget(
+      name,
+      minLength,
+      Math.max(minLength, this.resolve(constraint?.maxLength, "max") ?? DEFAULT_MAX),
+    );
+    if (this.mode === "random") {
+      maxLength = Math.min(maxLength, Math.max(minLength, this.sizeLimit));
+    }
+    const draw = (): string => {
+      const length =
+        this.mode === "max" ? maxLength : minLength + Math.floor(this.random() * (maxLength - minLength + 1));
+      return Array.from({ length }, () => this.pick(charset)).join("");
+    };
+    const value = this.drawDistinct(name, draw);
+    this.used.get(name)?.add(value);
+    this.spendBudget(name, value.length);
+    return value;
+  }
+
+  /**
+   * Draw a value, retrying while it collides with the previous values of a variable with distinct elements
+   */
+  private drawDistinct<T extends number | string>(
+    name: string,
+    draw: () => T,
+    attempts: number = MAX_DISTINCT_ATTEMPTS,
+  ): T {
+    let value = draw();
+    if (!this.constraints[name]?.distinct) {
+      return value;
+    }
+    const used = this.used.get(name) ?? new Set<string>();
+    this.used.set(name, used);
+    for (let i = 0; used.has(String(value)) && i < attempts; i++) {
+      value = draw();
+    }
+    return value;
+  }
+
+  /**
+   * Largest value in [min, max] not taken yet by a variable with distinct elements. The search resumes below the
+   * previous result instead of starting over from max, so that filling a whole array stays linear.
+   */
+  private largestUnused(name: string, used: Set<string>, min: number, max: number): number | undefined {
+    let candidate = Math.min(this.unusedCursors.get(name) ?? max, max);
+    while (candidate >= min && used.has(String(candidate))) {
+      candidate--;
+    }
+    this.unusedCursors.set(name, candidate - 1);
+    return candidate >= min ? candidate : undefined;
+  }
+
+  private range(name: string): { min: number; max: number } {
+    const min = this.resolve(this.constraints[name]?.min, "min") ?? DEFAULT_MIN;
+    const max = this.resolve(this.constraints[name]?.max, "max") ?? Math.max(min, DEFAULT_MAX);
+    return { min, max: Math.max(min, max) };
+  }
+
+  /**
+   * Evaluate a bound with the values generated so far
+   */
+  private resolve(bound: Bound | undefined, side: "min" | "max"): number | undefined {
+    return resolveBound(this.constraints, bound, side, (name) => this.values.get(name));
+  }
+
+  private evaluateNode(node: ASTNode): number {
+    switch (node.type) {
+      case "number":
+        return (node as NumberNode).value;
+      case "item": {
+        const value = this.values.get((node as ItemNode).name);
+        if (value === undefined) {
+          throw new Error(`Unknown loop bound: ${(node as ItemNode).name}`);
+        }
+        return value;
+      }
+      case "binop": {
+        const { op, left, right } = node as BinOpNode;
+        const l = this.evaluateNode(left);
+        const r = this.evaluateNode(right);
+        if (op === "+") return l + r;
+        if (op === "-") return l - r;
+        if (op === "*") return l * r;
+        if (op === "/") return Math.floor(l / r);
+        throw new Error(`Unsupported operator in loop bound: ${op}`);
+      }
+      default:
+        throw new Error(`Unsupported loop bound: ${node.type}`);
+    }
+  }
+
+  private containsVerticalItem(nodes: ASTNode[]): boolean {
+    return nodes.some((node) =>
+      node.type === "loop"
+        ? this.containsVerticalItem((node as LoopNode).body)
+        : node.type === "item" && this.verticalNames.has((node as ItemNode).name),
+    );
+  }
+
+  // Values of indexed items only constrain other items of the same iteration
+  private clearItems(nodes: ASTNode[]): void {
+    for (const node of nodes) {
+      if (node.type === "item") {
+        this.values.delete((node as ItemNode).name);
+      } else if (node.type === "loop") {
+        this.clearItems((node as LoopNode).body);
+      }
+    }
+  }
+
+  private pick(charset: string): string {
+    return charset[Math.floor(this.random() * charset.length)];
+  }
+
+  private emit(token: string): void {
+    this.tokens.push(token);
+  }
+
+  private newline(): void {
+    if (this.tokens.length > 0) {
+      this.lines.push(this.tokens.join(" "));
+      this.tokens = [];
+    }
+  }
+}
+
+/**
+ * Small seeded PRNG, so that the same seed reproduces the same input
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
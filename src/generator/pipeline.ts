@@ -3,8 +3,12 @@ import { Lexer } from "../analyzer/lexer.js";
 import { Parser } from "../analyzer/parser.js";
 import { Analyzer } from "../analyzer/analyzer.js";
 import { inferTypesFromInstances } from "../analyzer/typing.js";
+import { splitCases, splitCaseOutputs } from "../analyzer/multiple-cases.js";
 import { VariableExtractor, VariableInfo } from "./variable-extractor.js";
-import { FormatNode, VarType } from "../analyzer/types.js";
+import { FormatNode, ItemNode, VarType } from "../analyzer/types.js";
+import { Constraints, findIndexVariables } from "../analyzer/constraints.js";
+import { detectGraph, GraphInfo } from "../analyzer/graph.js";
+import { QueryVariant } from "./types.js";
 
 export interface ParseResult {
   contestId: string;
@@ -13,15 +17,21 @@ export interface ParseResult {
   url: string;
   multipleCases: boolean;
   queryType: boolean;
+  queryVariants: QueryVariant[];
   judgeType: string;
   errorTolerance?: number;
   yesStr?: string;
   noStr?: string;
   mod?: number;
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+  constraints: Constraints;
+  inputFormat: string;
   returnType: string;
   multipleColumns: boolean;
   multipleRows: boolean;
   variableArray?: boolean;
+  graph?: GraphInfo;
   samples: Sample[];
   variables: VariableInfo[];
   formatTree?: FormatNode; // Optional, if we want to expose it
@@ -38,15 +48,20 @@ export function generateParseResult(html: string, taskId: string, url: string):
     samples,
     multipleCases,
     queryType,
+    queryFormats,
     judgeType,
     errorTolerance,
     yesStr,
     noStr,
     mod,
+    timeLimitMs,
+    memoryLimitMb,
+    constraints,
     returnType,
     multipleColumns,
     multipleRows,
     variableArray,
+    graphType,
   } = parseHtml(html);
 
   if (!inputFormat) {
@@ -74,12 +89,17 @@ export function generateParseResult(html: string, taskId: string, url: string):
   console.log("Inferring Types...");
   let sampleInputs = samples.map((s) => s.input);
   if (multipleCases) {
-    sampleInputs = sampleInputs.map((input) => {
-      const lines = input.split("\n");
+    // Each case is an instance of the format, so the types are inferred from all the cases
+    sampleInputs = samples.flatMap((sample, index) => {
+      const cases = splitSampleCases(formatTree, sample, index + 1);
+      if (cases) {
+        return cases;
+      }
+      const lines = sample.input.split("\n");
       if (lines.length > 0) {
         lines.shift();
       }
-      return lines.join("\n");
+      return [lines.join("\n")];
     });
   }
   let { types, collapsedVars, collapsedAst: finalFormatTree } = inferTypesFromInstances(formatTree, sampleInputs);
@@ -94,6 +114,9 @@ export function generateParseResult(html: string, taskId: string, url: string):
   extractor.setCollapsedVars(collapsedVars);
   extractor.extract(formatTree); // Use original formatTree
   const variables = extractor.getVariables(types);
+  const sizes = new Set(variables.filter((v) => v.dims === 0 && v.type === VarType.ValueInt).map((v) => v.name));
+  const arrays = variables.filter((v) => v.dims > 0);
+  markIndexVariables(arrays, constraints, sizes);
 
   const queryVar = variables.find((v) => v.name === "query");
   if (queryType) {
@@ -106,6 +129,16 @@ export function generateParseResult(html: string, taskId: string, url: string):
     queryVar.type = VarType.Query;
   }
 
+  const queryVariants = queryType ? parseQueryVariants(queryFormats, sampleInputs, constraints, sizes) : [];
+  if (queryVariants.length > 0) {
+    console.log(`Query types: ${queryVariants.map((variant) => variant.type).join(", ")}`);
+  }
+
+  const graph = detectGraph(formatTree, types, constraints, graphType);
+  if (graph) {
+    console.log(`Graph detected: ${graph.vertices} vertices, ${graph.parent ? "parent array" : "edge list"}`);
+  }
+
   return {
     contestId,
     problemId,
@@ -113,17 +146,113 @@ export function generateParseResult(html: string, taskId: string, url: string):
     url,
     multipleCases,
     queryType,
+    queryVariants,
     judgeType,
     errorTolerance,
     yesStr,
     noStr,
     mod,
+    timeLimitMs,
+    memoryLimitMb,
+    constraints,
+    inputFormat,
     returnType,
     multipleColumns,
     multipleRows,
     variableArray,
+    graph,
     samples,
     variables,
     formatTree: finalFormatTree,
   };
 }
+
+/**
+ * Split a sample of a multi-testcase problem into its cases and set `sample.cases` when the output can be split too
+ * @returns The inputs of the cases, or undefined if the sample does not match the format of a case
+ */
+function splitSampleCases(caseFormat: FormatNode, sample: Sample, sampleNumber: number): string[] | undefined {
+  let inputs: string[];
+  try {
+    inputs = splitCases(caseFormat, sample.input);
+  } catch (e) {
+    console.warn(`Sample ${sampleNumber} does not match the input format: ${(e as Error).message}`);
+    return undefined;
+  }
+
+  const outputs = splitCaseOutputs(sample.output, inputs.length);
+  if (outputs) {
+    sample.cases = inputs.map((input, i) => ({ input, output: outputs[i] }));
+  }
+  return inputs;
+}
+
+/**
+ * Parse the format of each query type (e.g. "1 x y" or "2 k") and infer the types of its arguments from the lines of
+ * the sample inputs that start with the query type
+ */
+function parseQueryVariants(
+  queryFormats: string[],
+  sampleInputs: string[],
+  constraints: Constraints,
+  sizes: Set<string>,
+): QueryVariant[] {
+  const variants: QueryVariant[] = [];
+  const sampleLines = sampleInputs.flatMap((input) => input.split("\n").map((line) => line.trim()));
+
+  for (const queryFormat of queryFormats) {
+    const match = queryFormat.match(/^(\d+)(?:\s|$)/);
+    if (!match) continue;
+    const type = Number(match[1]);
+    if (variants.some((variant) => variant.type === type)) continue;
+
+    let format: FormatNode;
+    try {
+      format = new Analyzer().analyze(new Parser(new Lexer(queryFormat).tokenize()).parse());
+    } catch (e) {
+      console.warn(`Could not parse the format of query ${type}: ${queryFormat}`, e);
+      continue;
+    }
+    // Each query has its own arguments, so a subscript like x_i only tells which query they belong to
+    format.children = format.children.map((child) =>
+      child.type === "item" ? { ...(child as ItemNode), indices: [] } : child,
+    );
+
+    // Lines such as "N Q" may also start with the same number, so only the lines matching the format are used
+    const instances = sampleLines
+      .filter((line) => line.split(/\s+/)[0] === String(type))
+      .map((line) => line.replace(/^\d+\s*/, ""))
+      .filter((instance) => {
+        try {
+          inferTypesFromInstances(format, [instance]);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+    const { types } = inferTypesFromInstances(format, instances);
+
+    const extractor = new VariableExtractor();
+    extractor.extract(format);
+    // The arguments are read for each query, so they are indices like the elements of an array
+    const variables = extractor.getVariables(types);
+    markIndexVariables(variables, constraints, sizes);
+    variants.push({ type, format, variables });
+  }
+
+  return variants.sort((a, b) => a.type - b.type);
+}
+
+/**
+ * Mark the integer variables that the constraints bound like 1-based indices (e.g. 1 <= u_i <= N) as IndexInt
+ */
+function markIndexVariables(variables: VariableInfo[], constraints: Constraints, sizes: Set<string>): void {
+  const candidates = variables.filter((v) => v.type === VarType.ValueInt);
+  const names = candidates.map((v) => v.name);
+  const indices = findIndexVariables(constraints, names, sizes);
+  for (const variable of candidates) {
+    if (indices.has(variable.name)) {
+      variable.type = VarType.IndexInt;
+    }
+  }
+}
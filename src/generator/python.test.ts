@@ -74,7 +74,7 @@ describe("PythonGenerator", () => {
     // Check declarations/allocations
     expect(code).toContain("N: int");
     expect(code).toContain("A: List[int]");
-    expect(code).toContain("A = [0] * N");
+    expect(code).toContain("A = [0] * (N)");
 
     // Check input loop
     expect(code).toContain("N = int(next(tokens))");
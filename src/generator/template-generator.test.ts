@@ -0,0 +1,259 @@
+import { describe, it, expect } from "vitest";
+import { TemplateGenerator } from "./template-generator";
+import { FormatNode, VarType } from "../analyzer/types";
+
+type Variables = Parameters<TemplateGenerator["generate"]>[1];
+type Options = Parameters<TemplateGenerator["generate"]> extends [unknown, unknown, ...infer Rest] ? Rest : never;
+
+interface Input {
+  format: FormatNode;
+  variables: Variables;
+}
+
+interface GeneratorCase {
+  language: string;
+  title: string;
+  input: Input;
+  options?: Options;
+  expected: string[];
+  unexpected?: string[];
+}
+
+// Input:
+// N
+// A_1 ... A_N
+function arrayInput(): Input {
+  const N_Ref: any = { type: "ident", value: "N" };
+  return {
+    format: {
+      type: "format",
+      children: [
+        { type: "item", name: "N", indices: [] } as any,
+        {
+          type: "loop",
+          variable: "i",
+          start: { type: "number", value: 0 },
+          end: N_Ref,
+          body: [{ type: "item", name: "A", indices: [{ type: "ident", value: "i" }] }],
+        } as any,
+      ],
+    },
+    variables: [
+      { name: "N", type: VarType.ValueInt, dims: 0, indices: [] },
+      { name: "A", type: VarType.ValueInt, dims: 1, indices: [N_Ref] },
+    ],
+  };
+}
+
+// Input:
+// H W
+// C_{1,1} ... C_{H,W}
+function gridInput(): Input {
+  const H_Ref: any = { type: "ident", value: "H" };
+  const W_Ref: any = { type: "ident", value: "W" };
+  return {
+    format: {
+      type: "format",
+      children: [
+        { type: "item", name: "H", indices: [] } as any,
+        { type: "item", name: "W", indices: [] } as any,
+        {
+          type: "loop",
+          variable: "i",
+          start: { type: "number", value: 0 },
+          end: H_Ref,
+          body: [
+            {
+              type: "loop",
+              variable: "j",
+              start: { type: "number", value: 0 },
+              end: W_Ref,
+              body: [
+                {
+                  type: "item",
+                  name: "C",
+                  indices: [
+                    { type: "ident", value: "i" },
+                    { type: "ident", value: "j" },
+                  ],
+                },
+              ],
+            },
+          ],
+        } as any,
+      ],
+    },
+    variables: [
+      { name: "H", type: VarType.ValueInt, dims: 0, indices: [] },
+      { name: "W", type: VarType.ValueInt, dims: 0, indices: [] },
+      { name: "C", type: VarType.ValueInt, dims: 2, indices: [H_Ref, W_Ref] },
+    ],
+  };
+}
+
+function scalarInput(name: string, type: VarType): Input {
+  return {
+    format: { type: "format", children: [{ type: "item", name, indices: [] } as any] },
+    variables: [{ name, type, dims: 0, indices: [] }],
+  };
+}
+
+const emptyInput: Input = { format: { type: "format", children: [] }, variables: [] };
+
+const cases: GeneratorCase[] = [
+  {
+    language: "rust",
+    title: "array input",
+    input: arrayInput(),
+    expected: [
+      "let mut N: i64;",
+      "N = tokens.next().unwrap().parse().unwrap();",
+      "let mut A: Vec<i64> = vec![0; (N) as usize];",
+      "for i in 0..(N) as usize {",
+      "A[i] = tokens.next().unwrap().parse().unwrap();",
+      "fn solve(N: i64, A: Vec<i64>) {",
+      "solve(N, A);",
+    ],
+  },
+  {
+    language: "rust",
+    title: "the answer printed with MOD",
+    input: scalarInput("S", VarType.String),
+    options: [false, false, undefined, undefined, 998244353, "int"],
+    expected: [
+      "const MOD: i64 = 998244353;",
+      "S = tokens.next().unwrap().to_string();",
+      "fn solve(S: String) -> i64 {",
+      'writeln!(out, "{}", ans).unwrap();',
+    ],
+  },
+  {
+    language: "rust",
+    title: "the number of cases and the tokens of query problems",
+    input: scalarInput("Q", VarType.ValueInt),
+    options: [true, true],
+    expected: [
+      "fn solve(Q: i64, tokens: &mut SplitAsciiWhitespace) {",
+      "for _ in 0..Q {",
+      "solve(Q, tokens);",
+      "let t: usize = tokens.next().unwrap().parse().unwrap();",
+    ],
+  },
+  {
+    language: "java",
+    title: "array input",
+    input: arrayInput(),
+    expected: [
+      "public class Main {",
+      "        long N;",
+      "        N = sc.nextLong();",
+      "        long[] A = new long[(int) (N)];",
+      "        for (int i = 0; i < N; i++) {",
+      "            A[i] = sc.nextLong();",
+      "    static void solve(long N, long[] A) {",
+      "static class FastScanner {",
+    ],
+  },
+  {
+    language: "java",
+    title: "a list of boxed answers",
+    input: emptyInput,
+    options: [true, false, "Yes", "No", undefined, "bool", false, true],
+    expected: [
+      'static final String YES = "Yes";',
+      "static List<Boolean> solve() {",
+      "out.println((ans ? YES : NO));",
+      "int t = sc.nextInt();",
+    ],
+  },
+  {
+    language: "kotlin",
+    title: "array input",
+    input: arrayInput(),
+    expected: [
+      "var N: Long",
+      "N = sc.nextLong()",
+      "val A = Array<Long>((N).toInt()) { 0L }",
+      "for (i in 0 until (N).toInt()) {",
+      "A[i] = sc.nextLong()",
+      "fun solve(N: Long, A: Array<Long>) {",
+      "class FastScanner(private val input: InputStream) {",
+    ],
+    unexpected: ["var N: Long;"],
+  },
+  {
+    language: "kotlin",
+    title: "the answer printed with MOD",
+    input: emptyInput,
+    options: [false, false, undefined, undefined, 1000000007, "int"],
+    expected: ["const val MOD = 1000000007L", "fun solve(): Long {", "val ans: Long = 0L", "out.println(ans)"],
+  },
+  {
+    language: "go",
+    title: "array input",
+    input: arrayInput(),
+    expected: [
+      "var in = bufio.NewReader(os.Stdin)",
+      "var out = bufio.NewWriter(os.Stdout)",
+      "\tvar N int\n",
+      "fmt.Fscan(in, &N)",
+      "A := make([]int, N)",
+      "for i := 0; i < N; i++ {",
+      "fmt.Fscan(in, &A[i])",
+      "func solve(N int, A []int) {",
+      "solve(N, A)",
+      "defer out.Flush()",
+    ],
+  },
+  {
+    language: "go",
+    title: "Yes/No answers and the number of cases",
+    input: scalarInput("S", VarType.String),
+    options: [true, false, "Yes", "No", undefined, "bool"],
+    expected: [
+      'const YES = "Yes"',
+      "func solve(S string) bool {",
+      "fmt.Fprintln(out, yesNo(ans))",
+      "fmt.Fscan(in, &t)",
+    ],
+  },
+  {
+    language: "csharp",
+    title: "a 2D array input",
+    input: gridInput(),
+    options: [false, false, undefined, undefined, 998244353, "int"],
+    expected: [
+      "const long MOD = 998244353;",
+      "H = sc.NextLong();",
+      "long[][] C = Make2D<long>(H, W);",
+      "for (long j = 0; j < W; j++) {",
+      "C[i][j] = sc.NextLong();",
+      "static long Solve(long H, long W, long[][] C) {",
+      "writer.WriteLine(ans);",
+      "writer.Flush();",
+    ],
+  },
+];
+
+describe("TemplateGenerator", () => {
+  it.each(cases)(
+    "should generate $language code for $title",
+    ({ language, input, options = [], expected, unexpected = [] }) => {
+      const code = new TemplateGenerator(language).generate(input.format, input.variables, ...options);
+
+      for (const snippet of expected) {
+        expect(code).toContain(snippet);
+      }
+      for (const snippet of unexpected) {
+        expect(code).not.toContain(snippet);
+      }
+    },
+  );
+
+  it("should provide the project file building Main.cs", () => {
+    const project = new TemplateGenerator("csharp").readProjectFile("csharp.csproj");
+
+    expect(project).toContain("<AssemblyName>Main</AssemblyName>");
+    expect(project).toContain('<Compile Include="Main.cs" />');
+  });
+});
@@ -0,0 +1,107 @@
+import nunjucks from "nunjucks";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import JSON5 from "json5";
+import { UniversalGenerator } from "./universal.js";
+import { CodeGeneratorConfig, QueryVariant } from "./types.js";
+import { FormatNode, VarType, ASTNode } from "../analyzer/types.js";
+import { ConfigManager } from "../config.js";
+import { Constraints } from "../analyzer/constraints.js";
+import { GraphInfo } from "../analyzer/graph.js";
+
+// Resolve paths relative to this file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_CONFIG_DIR = path.join(__dirname, "config");
+const DEFAULT_TEMPLATE_DIR = path.join(__dirname, "templates");
+
+/**
+ * Code generator driven by `<lang>.json5` and `<lang>.njk`.
+ * Files in the config directory take precedence over the built-in ones.
+ */
+export class TemplateGenerator {
+  private generator: UniversalGenerator;
+  private template: string;
+  private localDir?: string;
+
+  constructor(language: string, configManager?: ConfigManager) {
+    let configPath = path.join(DEFAULT_CONFIG_DIR, `${language}.json5`);
+    let templatePath = path.join(DEFAULT_TEMPLATE_DIR, `${language}.njk`);
+
+    if (configManager?.isUserConfigEnabled()) {
+      this.localDir = configManager.getConfigDirPath();
+      const localJson5Path = path.join(this.localDir, `${language}.json5`);
+      const localNjkPath = path.join(this.localDir, `${language}.njk`);
+
+      if (fs.existsSync(localJson5Path)) {
+        configPath = localJson5Path;
+        console.log(`Using local config: ${configPath}`);
+      }
+      if (fs.existsSync(localNjkPath)) {
+        templatePath = localNjkPath;
+        console.log(`Using local template: ${templatePath}`);
+      }
+    }
+
+    const configContent = fs.readFileSync(configPath, "utf-8");
+    const config = JSON5.parse(configContent) as CodeGeneratorConfig;
+    this.generator = new UniversalGenerator(config);
+    this.template = fs.readFileSync(templatePath, "utf-8").replaceAll("%}\r\n", "%}").replaceAll("%}\n", "%}");
+
+    // Configure nunjucks
+    nunjucks.configure({ autoescape: false });
+  }
+
+  generate(
+    format: FormatNode,
+    variables: {
+      name: string;
+      type: VarType;
+      dims: number;
+      indices: ASTNode[];
+    }[],
+    multipleCases?: boolean,
+    queryCases?: boolean,
+    yesStr?: string,
+    noStr?: string,
+    mod?: number,
+    returnType: string = "void",
+    multipleColumns?: boolean,
+    multipleRows?: boolean,
+    variableArray?: boolean,
+    constraints?: Constraints,
+    queryVariants?: QueryVariant[],
+    graph?: GraphInfo,
+  ): string {
+    const context = this.generator.generate(
+      format,
+      variables,
+      multipleCases,
+      queryCases,
+      yesStr,
+      noStr,
+      mod,
+      returnType,
+      multipleColumns,
+      multipleRows,
+      variableArray,
+      constraints,
+      queryVariants,
+      graph,
+    );
+    return nunjucks.renderString(this.template, context);
+  }
+
+  /**
+   * Content of a project file template (e.g. "csharp.csproj"), read from the config directory if it exists there
+   */
+  readProjectFile(templateName: string): string {
+    const localPath = this.localDir && path.join(this.localDir, templateName);
+    if (localPath && fs.existsSync(localPath)) {
+      return fs.readFileSync(localPath, "utf-8");
+    }
+    return fs.readFileSync(path.join(DEFAULT_TEMPLATE_DIR, templateName), "utf-8");
+  }
+}
@@ -1,4 +1,35 @@
+import { Constraints } from "../analyzer/constraints.js";
+import { FormatNode } from "../analyzer/types.js";
+import { VariableInfo } from "./variable-extractor.js";
+
+/**
+ * One kind of query of a query type problem, e.g. "1 x y" is the query type 1 with the arguments x and y
+ */
+export interface QueryVariant {
+  type: number;
+  format: FormatNode;
+  variables: VariableInfo[];
+}
+
+/**
+ * Language section of a `<lang>.json5`. It registers a new language when the file is put in the config directory
+ * together with `<lang>.njk`, or overrides the settings of a built-in language.
+ */
+export interface LanguageSpec {
+  name?: string;
+  aliases?: string[];
+  extensions?: string[];
+  source_filename?: string;
+  build_command?: string;
+  run_command?: string;
+  // AtCoder language ID or a part of the option label on the submit page
+  submit_language?: string;
+  // Files saved next to the source code, mapped to the template file they are copied from
+  project_files?: Record<string, string>;
+}
+
 export interface CodeGeneratorConfig {
+  language?: LanguageSpec;
   indent_width: number;
   indent_type: "tab" | "space";
   newline?: "lf" | "crlf";
@@ -17,6 +48,8 @@ export interface CodeGeneratorConfig {
     int: string;
     float: string;
     str: string;
+    // Narrower integer type used when the constraints guarantee that the values fit in 32 bits
+    int32?: string;
     // Add other types if needed, or make it a Record<string, string>
   };
 
@@ -62,10 +95,20 @@ export interface CodeGeneratorConfig {
     "2d_seq": string;
   };
 
+  // Resize a row of an on-demand 2D array, e.g. "{name}[{index}].resize({length});"
+  resize?: string;
+
+  // Build an adjacency list at the beginning of solve() when the input is recognized as a graph
+  adjacency_list?: boolean;
+
   input: {
     int: string;
     float: string;
     str: string;
+    // Read a 1-based index as 0-based, e.g. "std::cin >> {name}; {name}--;" (other integers use `int`)
+    index_int?: string;
+    // Read all the rows of a grid at once, e.g. "{name} = [next(tokens) for _ in range({rows})]"
+    grid?: string;
   };
 }
 
@@ -84,6 +127,31 @@ export interface TemplateContext {
   variable_array?: boolean;
   query_cases?: boolean;
   query_loop_var?: string;
+  // Input of the arguments of each query type, indented for the body of the dispatch in the query loop of solve()
+  query_variants?: {
+    type: number;
+    input_part: string;
+  }[];
+  constraints?: Constraints;
+  // First grid of characters in the input, with the expressions of its numbers of rows and columns
+  grid?: {
+    name: string;
+    rows: string;
+    cols: string;
+  };
+  // Graph given by the input. `vertices` and `edges` are expressions of the numbers of vertices and edges.
+  graph?: {
+    vertices: string;
+    edges: string;
+    from?: string;
+    to?: string;
+    weight?: string;
+    parent?: string;
+    directed: boolean;
+    one_indexed: boolean;
+  };
+  // Whether to build an adjacency list of the graph (`adjacency_list` of the language config)
+  adjacency_list?: boolean;
   tools: {
     version: string;
   };
@@ -1,5 +1,17 @@
-import { ASTNode, FormatNode, ItemNode, LoopNode, VarType, BinOpNode, NumberNode } from "../analyzer/types.js";
-import { CodeGeneratorConfig, TemplateContext } from "./types.js";
+import {
+  ASTNode,
+  FormatNode,
+  GridNode,
+  ItemNode,
+  LoopNode,
+  VarType,
+  BinOpNode,
+  NumberNode,
+} from "../analyzer/types.js";
+import { CodeGeneratorConfig, QueryVariant, TemplateContext } from "./types.js";
+import { Constraints, fitsInInt32 } from "../analyzer/constraints.js";
+import { GraphInfo } from "../analyzer/graph.js";
+import { readLength } from "./variable-extractor.js";
 
 type Variable = {
   name: string;
@@ -14,6 +26,7 @@ export class UniversalGenerator {
   private indent: string;
   private newline: string;
   private inputtedVariables: Set<string> = new Set();
+  private constraints: Constraints = {};
 
   constructor(config: CodeGeneratorConfig) {
     this.config = config;
@@ -33,7 +46,12 @@ export class UniversalGenerator {
     multipleColumns?: boolean,
     multipleRows?: boolean,
     variableArray?: boolean,
+    constraints: Constraints = {},
+    queryVariants: QueryVariant[] = [],
+    graph?: GraphInfo,
   ): TemplateContext {
+    this.constraints = constraints;
+
     let queryLoopVar: string | undefined = undefined;
     if (queryCases) {
       // Heuristic: Find variable named Q or q
@@ -64,6 +82,8 @@ export class UniversalGenerator {
     // Input Reading (and interleaved declaration)
     const inputLines = this.generateInput(format.children, declarableVariables, declaredVariables, queryLoopVar);
     const inputPart = inputLines.map((line) => this.indent + line).join(this.newline);
+    const queryVariantParts = queryCases ? this.generateQueryVariants(queryVariants) : [];
+    const grid = this.findGrid(format.children);
 
     return {
       prediction_success: true,
@@ -80,12 +100,49 @@ export class UniversalGenerator {
       variable_array: variableArray,
       query_cases: queryCases,
       query_loop_var: queryLoopVar,
+      query_variants: queryVariantParts,
+      constraints: constraints,
+      grid: grid && {
+        name: grid.name,
+        rows: this.stringifyNode(grid.rows, declarableVariables),
+        cols: this.stringifyNode(grid.cols, declarableVariables),
+      },
+      graph: graph && {
+        vertices: graph.vertices,
+        edges: this.stringifyNode(graph.edges, declarableVariables),
+        from: graph.from,
+        to: graph.to,
+        weight: graph.weight,
+        parent: graph.parent,
+        directed: graph.directed,
+        // Indices already read as 0-based need no offset
+        one_indexed: graph.oneIndexed && !this.isReadAsZeroBased(graph.parent ?? graph.from, declarableVariables),
+      },
+      adjacency_list: this.config.adjacency_list ?? false,
       tools: {
         version: "1.0.0", // TODO: Get from package.json
       },
     };
   }
 
+  private isReadAsZeroBased(name: string | undefined, variables: Variable[]): boolean {
+    const variable = variables.find((v) => v.name === name);
+    return !!this.config.input.index_int && variable?.type === VarType.IndexInt;
+  }
+
+  // Read the arguments of each query type into locals, inside solve() > query loop > dispatch on the query type
+  private generateQueryVariants(queryVariants: QueryVariant[]): { type: number; input_part: string }[] {
+    const indent = this.indent.repeat(3);
+    return queryVariants.map((variant) => {
+      this.inputtedVariables.clear();
+      const lines = this.generateInput(variant.format.children, variant.variables, new Set<string>());
+      return {
+        type: variant.type,
+        input_part: lines.map((line) => indent + line).join(this.newline),
+      };
+    });
+  }
+
   private getDependencies(node: ASTNode): string[] {
     const deps = new Set<string>();
     const visit = (n: ASTNode) => {
@@ -140,7 +197,7 @@ export class UniversalGenerator {
       return variables.map((v) => this.generateDeclaration(v, allVariables)).join(this.newline);
     }
 
-    const innerType = this.config.type[typeKey as keyof typeof this.config.type];
+    const innerType = this.getInnerType(firstVar);
     const prefix = this.formatString(template.substring(0, placeholderIndex), {
       type: innerType,
     });
@@ -202,7 +259,7 @@ export class UniversalGenerator {
     const defaultValue = this.config.default[typeKey as keyof typeof this.config.default] || "";
 
     let decl = "";
-    const innerType = this.config.type[typeKey as keyof typeof this.config.type];
+    const innerType = this.getInnerType(variable);
     if (variable.dims === 0) {
       decl = this.formatString(this.config.declare[typeKey as keyof typeof this.config.declare], {
         name: variable.name,
@@ -228,6 +285,7 @@ export class UniversalGenerator {
         // For on-demand 2D arrays, we only allocate the first dimension
         decl = this.formatString(this.config.declare_and_allocate["2d_outer_only"], {
           name: variable.name,
+          type: innerType,
           length: lenI,
         });
       } else {
@@ -385,7 +443,7 @@ export class UniversalGenerator {
         }
 
         // Resize on-demand arrays
-        const length = this.stringifyNode(loopNode.end, variables);
+        const length = this.stringifyNode(readLength(loopNode), variables);
         const resizedInThisLoop = new Set<string>();
         for (const varName of varsInLoopNames) {
           const v = variables.find((v) => v.name === varName);
@@ -406,11 +464,51 @@ export class UniversalGenerator {
         }
 
         lines.push(...this.generateLoopInput(loopNode, variables, declaredVariables));
+      } else if (node.type === "grid") {
+        lines.push(...this.generateGridInput(node as GridNode, variables, declaredVariables));
       }
     }
     return lines;
   }
 
+  // A grid is read row by row as strings, at once if the language has a template for it
+  private generateGridInput(grid: GridNode, variables: Variable[], declaredVariables: Set<string>): string[] {
+    if (this.config.input.grid) {
+      declaredVariables.add(grid.name);
+      this.inputtedVariables.add(grid.name);
+      return [
+        this.formatString(this.config.input.grid, {
+          name: grid.name,
+          rows: this.stringifyNode(grid.rows, variables),
+          cols: this.stringifyNode(grid.cols, variables),
+        }),
+      ];
+    }
+
+    const loopVar = ["i", "j", "k", "l", "m"].find((name) => !variables.some((v) => v.name === name)) ?? "i";
+    const index: ItemNode = { type: "item", name: loopVar, indices: [] };
+    const row: ItemNode = { type: "item", name: grid.name, indices: [index] };
+    const loop: LoopNode = {
+      type: "loop",
+      variable: loopVar,
+      start: { type: "number", value: 1 } as NumberNode,
+      end: grid.rows,
+      body: [row],
+    };
+    return this.generateInput([loop], variables, declaredVariables);
+  }
+
+  private findGrid(nodes: ASTNode[]): GridNode | undefined {
+    for (const node of nodes) {
+      if (node.type === "grid") return node as GridNode;
+      if (node.type === "loop") {
+        const grid = this.findGrid((node as LoopNode).body);
+        if (grid) return grid;
+      }
+    }
+    return undefined;
+  }
+
   private findVariablesInSameGroup(
     allVariables: Variable[],
     declaredVariables: Set<string>,
@@ -422,8 +520,9 @@ export class UniversalGenerator {
       if (
         !declaredVariables.has(variable.name) &&
         !group.some((gv) => gv.name === variable.name) &&
-        variable.type === currentVar.type &&
+        this.isSameDeclaredType(variable.type, currentVar.type) &&
         variable.dims === currentVar.dims &&
+        this.getInnerType(variable) === this.getInnerType(currentVar) &&
         this.areDependenciesMet(variable) &&
         this.areIndicesSame(variable, currentVar)
       ) {
@@ -442,6 +541,12 @@ export class UniversalGenerator {
     return result;
   }
 
+  // 1-based indices are declared as the other integers, and only read differently
+  private isSameDeclaredType(a: VarType, b: VarType): boolean {
+    const isInt = (type: VarType): boolean => type === VarType.ValueInt || type === VarType.IndexInt;
+    return a === b || (isInt(a) && isInt(b));
+  }
+
   private areIndicesSame(v1: Variable, v2: Variable, allVariables: Variable[]): boolean {
     if (v1.dims !== v2.dims) return false;
     for (let i = 0; i < v1.dims; i++) {
@@ -473,17 +578,25 @@ export class UniversalGenerator {
     return variable.name;
   }
 
+  private getInputTemplate(variable: Variable): string | undefined {
+    if (variable.type === VarType.IndexInt && this.config.input.index_int) {
+      return this.config.input.index_int;
+    }
+    const typeKey = this.mapVarType(variable.type);
+    return this.config.input[typeKey as "int" | "float" | "str"];
+  }
+
   private getInputTemplateParts(node: ItemNode, variables: Variable[]): { prefix: string; suffix: string } | null {
     const variable = variables.find((v) => v.name === node.name);
     if (!variable || variable.type === VarType.Query) return null;
 
-    const typeKey = this.mapVarType(variable.type);
-    const template = this.config.input[typeKey as keyof typeof this.config.input];
+    const template = this.getInputTemplate(variable);
     if (!template) return null;
 
     const placeholder = "{name}";
     const index = template.indexOf(placeholder);
-    if (index === -1) return null;
+    // A template using the name twice (e.g. "std::cin >> {name}; {name}--;") cannot be grouped
+    if (index === -1 || template.indexOf(placeholder, index + 1) !== -1) return null;
 
     return {
       prefix: template.substring(0, index),
@@ -492,14 +605,13 @@ export class UniversalGenerator {
   }
 
   private generateItemInput(node: ItemNode, variables: Variable[]): string {
-    const parts = this.getInputTemplateParts(node, variables);
-    if (!parts) {
-      const variable = variables.find((v) => v.name === node.name);
+    const variable = variables.find((v) => v.name === node.name);
+    const template = variable && variable.type !== VarType.Query ? this.getInputTemplate(variable) : undefined;
+    if (!template?.includes("{name}")) {
       if (variable && variable.type === VarType.Query) return "// TODO";
       return `// Unknown variable ${node.name}`;
     }
-    const access = this.generateItemAccess(node, variables);
-    return parts.prefix + access + parts.suffix;
+    return this.formatString(template, { name: this.generateItemAccess(node, variables) });
   }
 
   private generateLoopInput(node: LoopNode, variables: Variable[], declaredVariables: Set<string>): string[] {
@@ -508,7 +620,7 @@ export class UniversalGenerator {
     // "for(int {loop_var} = 0 ; {loop_var} < {length} ; {loop_var}++){"
 
     const loopVar = node.variable;
-    const length = this.stringifyNode(node.end, variables);
+    const length = this.stringifyNode(readLength(node), variables);
 
     const header = this.formatString(this.config.loop.header, {
       loop_var: loopVar,
@@ -541,9 +653,19 @@ export class UniversalGenerator {
   }
 
   private generateResize(variable: Variable, outerIndex: string, length: string): string {
+    if (this.config.resize) {
+      const typeKey = this.mapVarType(variable.type);
+      return this.formatString(this.config.resize, {
+        name: variable.name,
+        type: this.getInnerType(variable),
+        index: outerIndex,
+        length: length,
+        default: this.config.default[typeKey as keyof typeof this.config.default] || "",
+      });
+    }
     if (this.config.type.str === "str") {
       // Python
-      return `${variable.name}[${outerIndex}] = [0] * ${length}`;
+      return `${variable.name}[${outerIndex}] = [0] * (${length})`;
     } else {
       // C++
       return `${variable.name}[${outerIndex}].resize(${length});`;
@@ -554,7 +676,7 @@ export class UniversalGenerator {
     return variables
       .map((v) => {
         const typeKey = this.mapVarType(v.type);
-        const innerType = this.config.type[typeKey as keyof typeof this.config.type];
+        const innerType = this.getInnerType(v);
 
         if (v.dims === 0) {
           return this.formatString(this.config.arg[typeKey as keyof typeof this.config.arg], {
@@ -594,6 +716,15 @@ export class UniversalGenerator {
       .join(", ");
   }
 
+  // Use the narrower integer type if the config has one and the constraints allow it
+  private getInnerType(variable: Variable): string {
+    const typeKey = this.mapVarType(variable.type);
+    if (typeKey === "int" && this.config.type.int32 && fitsInInt32(this.constraints, variable.name)) {
+      return this.config.type.int32;
+    }
+    return this.config.type[typeKey as keyof typeof this.config.type] ?? "";
+  }
+
   private mapVarType(type: VarType): string {
     switch (type) {
       case "int":
@@ -3,8 +3,19 @@ import {
   ASTNode,
   ItemNode,
   LoopNode,
+  NumberNode,
   VarType,
 } from "../analyzer/types.js";
+import { loopLength } from "../analyzer/analyzer.js";
+
+/**
+ * Number of items read by a loop. Loops from 0 or 1 are read up to their end, and a later start such as p_2 ... p_N
+ * leaves out the items before it.
+ */
+export function readLength(loop: LoopNode): ASTNode {
+  const start = loop.start.type === "number" ? (loop.start as NumberNode).value : undefined;
+  return start !== undefined && start > 1 ? loopLength(loop) : loop.end;
+}
 
 export interface VariableInfo {
   name: string;
@@ -91,7 +102,7 @@ export class VariableExtractor {
             const idxName = (idx as ItemNode).name;
             const loop = loops.find((l) => l.variable === idxName);
             if (loop) {
-              resolvedSize = loop.end;
+              resolvedSize = readLength(loop);
             }
           }
           indices.push(resolvedSize);
@@ -0,0 +1,279 @@
+import fs from "fs";
+import path from "path";
+import JSON5 from "json5";
+import { ConfigManager } from "./config.js";
+import { CodeGeneratorConfig } from "./generator/types.js";
+import { AtCoderToolsMetadata } from "./types.js";
+import { logError } from "./utils.js";
+
+export interface LanguageDefinition {
+  /** Key used in metadata.json and in the buildCommand/runCommand/submitLanguage settings */
+  id: string;
+  name: string;
+  aliases: string[];
+  extensions: string[];
+  sourceFilename: string;
+  /** Omitted for languages that need no build. `{file}` is the source file and `{name}` the file without extension. */
+  buildCommand?: string;
+  runCommand: string;
+  /** AtCoder language ID or a part of the option label on the submit page */
+  submitLanguage?: string;
+  /** Files saved next to the source code, mapped to the template file they are copied from */
+  projectFiles?: Record<string, string>;
+}
+
+export interface LanguageCommands {
+  /** Omitted for languages that need no build */
+  build?: string;
+  run: string;
+}
+
+export const DEFAULT_LANGUAGE = "cpp";
+
+const COMMAND_PLACEHOLDER = /\{(?:file|name)\}/;
+
+export const BUILTIN_LANGUAGES: LanguageDefinition[] = [
+  {
+    id: "cpp",
+    name: "C++",
+    aliases: ["c++"],
+    extensions: [".cpp", ".cc", ".cxx"],
+    sourceFilename: "main.cpp",
+    buildCommand: "g++ -O3 -std=c++23 -DNDEBUG {file} -o {name}",
+    runCommand: "./{name}",
+    submitLanguage: "C++ 23 (GCC",
+  },
+  {
+    id: "python",
+    name: "Python",
+    aliases: ["py"],
+    extensions: [".py"],
+    sourceFilename: "main.py",
+    runCommand: "uv run {file}",
+    submitLanguage: "Python (CPython",
+  },
+  {
+    id: "rust",
+    name: "Rust",
+    aliases: ["rs"],
+    extensions: [".rs"],
+    sourceFilename: "main.rs",
+    buildCommand: "rustc -O --edition 2021 {file} -o {name}",
+    runCommand: "./{name}",
+    submitLanguage: "Rust (rustc",
+  },
+  {
+    id: "java",
+    name: "Java",
+    aliases: [],
+    extensions: [".java"],
+    sourceFilename: "Main.java",
+    buildCommand: "javac {file}",
+    runCommand: "java {name}",
+    submitLanguage: "Java (OpenJDK",
+  },
+  {
+    id: "kotlin",
+    name: "Kotlin",
+    aliases: ["kt"],
+    extensions: [".kt"],
+    sourceFilename: "Main.kt",
+    buildCommand: "kotlinc {file} -include-runtime -d {name}.jar",
+    runCommand: "java -jar {name}.jar",
+    submitLanguage: "Kotlin (Kotlin/JVM",
+  },
+  {
+    id: "go",
+    name: "Go",
+    aliases: ["golang"],
+    extensions: [".go"],
+    sourceFilename: "main.go",
+    buildCommand: "go build -o {name} {file}",
+    runCommand: "./{name}",
+    submitLanguage: "Go (go",
+  },
+  {
+    id: "csharp",
+    name: "C#",
+    aliases: ["cs", "c#"],
+    extensions: [".cs"],
+    sourceFilename: "Main.cs",
+    buildCommand: "dotnet build {name}.csproj -c Release -o bin --nologo -v q",
+    runCommand: "dotnet bin/{name}.dll",
+    submitLanguage: "C# 11.0 (.NET",
+    projectFiles: { "Main.csproj": "csharp.csproj" },
+  },
+];
+
+/**
+ * Value of the --lang (-l) option, if given
+ */
+export function getLangOption(args: string[]): string | undefined {
+  const index = args.findIndex((arg) => arg === "--lang" || arg === "-l");
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Value of the --file option, a code file to use instead of the one in metadata.json
+ */
+export function getFileOption(args: string[]): string | undefined {
+  const index = args.indexOf("--file");
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Languages known to the generator, build, test and submit commands: the built-in languages plus the ones defined
+ * by a `language` section of a `<lang>.json5` in the config directory
+ */
+export class LanguageRegistry {
+  private languages = new Map<string, LanguageDefinition>();
+  private configManager?: ConfigManager;
+
+  constructor(configManager?: ConfigManager) {
+    this.configManager = configManager;
+    for (const language of BUILTIN_LANGUAGES) {
+      this.languages.set(language.id, language);
+    }
+    if (configManager?.isUserConfigEnabled()) {
+      this.loadUserLanguages(configManager.getConfigDirPath());
+    }
+  }
+
+  list(): LanguageDefinition[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * Find a language by its ID or alias (e.g. "py" for Python)
+   */
+  find(lang: string): LanguageDefinition | undefined {
+    const key = lang.toLowerCase();
+    return this.languages.get(key) ?? this.list().find((language) => language.aliases.includes(key));
+  }
+
+  /**
+   * Find a language by its ID or alias, falling back to C++ for unknown values
+   */
+  get(lang: string): LanguageDefinition {
+    return this.find(lang) ?? this.languages.get(DEFAULT_LANGUAGE)!;
+  }
+
+  /**
+   * Resolve a comma-separated --lang value (e.g. "cpp,py") into distinct languages, falling back to C++ if empty
+   */
+  getAll(langs: string): LanguageDefinition[] {
+    const languages = langs
+      .split(",")
+      .map((lang) => lang.trim())
+      .filter((lang) => lang.length > 0)
+      .map((lang) => this.get(lang));
+    if (languages.length === 0) {
+      return [this.get(DEFAULT_LANGUAGE)];
+    }
+    return languages.filter((language, index) => languages.findIndex(({ id }) => id === language.id) === index);
+  }
+
+  /**
+   * Pick the code file of metadata.json written in `lang`, or the main code file (code_filename) without `lang`
+   */
+  selectCodeFile(
+    metadata: Pick<AtCoderToolsMetadata, "code_filename" | "code_filenames">,
+    lang?: string,
+  ): string | undefined {
+    if (!lang) {
+      return metadata.code_filename;
+    }
+    const language = this.find(lang);
+    const filenames = metadata.code_filenames ?? [metadata.code_filename];
+    return filenames.find((filename) => filename && language && this.findByFilename(filename)?.id === language.id);
+  }
+
+  /**
+   * Find the language of a source file by its extension
+   */
+  findByFilename(filename: string): LanguageDefinition | undefined {
+    const extension = path.extname(filename).toLowerCase();
+    return extension ? this.list().find((language) => language.extensions.includes(extension)) : undefined;
+  }
+
+  /**
+   * Build and run commands of a source file written in the language, with the buildCommand and runCommand settings
+   * taking precedence over the defaults. Commands without placeholders are written for the default source file; they
+   * can still run another file if nothing is built, by replacing the filename (e.g. "uv run main.py").
+   * @returns undefined if the commands cannot handle the file
+   */
+  getCommands(
+    language: LanguageDefinition,
+    sourceFile: string = language.sourceFilename,
+  ): LanguageCommands | undefined {
+    const config = this.configManager?.getConfig();
+    const build = config?.buildCommand?.[language.id] || language.buildCommand;
+    const run = config?.runCommand?.[language.id] || language.runCommand;
+    const name = sourceFile.slice(0, sourceFile.length - path.extname(sourceFile).length);
+
+    const expand = (command: string): string | undefined => {
+      if (COMMAND_PLACEHOLDER.test(command)) {
+        return command.replaceAll("{file}", sourceFile).replaceAll("{name}", name);
+      }
+      if (sourceFile === language.sourceFilename) {
+        return command;
+      }
+      return build ? undefined : command.replace(language.sourceFilename, sourceFile);
+    };
+
+    const buildCommand = build ? expand(build) : undefined;
+    let runCommand = expand(run);
+    if (runCommand === undefined || (build && buildCommand === undefined)) {
+      return undefined;
+    }
+    if (process.platform === "win32") {
+      runCommand = runCommand.replace(/^\.\//, "");
+    }
+    return { build: buildCommand, run: runCommand };
+  }
+
+  private loadUserLanguages(configDir: string): void {
+    if (!fs.existsSync(configDir)) return;
+
+    for (const file of fs.readdirSync(configDir)) {
+      if (!file.endsWith(".json5") || file === "config.json5") continue;
+
+      const id = path.basename(file, ".json5").toLowerCase();
+      let spec: CodeGeneratorConfig["language"];
+      try {
+        spec = (JSON5.parse(fs.readFileSync(path.join(configDir, file), "utf-8")) as CodeGeneratorConfig).language;
+      } catch (e) {
+        logError(`Failed to parse ${file}`, e);
+        continue;
+      }
+      // Without a language section the file only overrides the generator config of a built-in language
+      if (!spec) continue;
+
+      const base = this.languages.get(id);
+      const sourceFilename = spec.source_filename ?? base?.sourceFilename;
+      const runCommand = spec.run_command ?? base?.runCommand;
+      if (!sourceFilename || !runCommand) {
+        console.warn(`Skipping language ${id}: "source_filename" and "run_command" are required in ${file}.`);
+        continue;
+      }
+      if (!base && !fs.existsSync(path.join(configDir, `${id}.njk`))) {
+        console.warn(`Skipping language ${id}: ${id}.njk not found next to ${file}.`);
+        continue;
+      }
+
+      this.languages.set(id, {
+        id,
+        name: spec.name ?? base?.name ?? id,
+        aliases: (spec.aliases ?? base?.aliases ?? []).map((alias) => alias.toLowerCase()),
+        extensions: (spec.extensions ?? base?.extensions ?? [path.extname(sourceFilename)]).map((ext) =>
+          ext.toLowerCase(),
+        ),
+        sourceFilename,
+        buildCommand: spec.build_command ?? base?.buildCommand,
+        runCommand,
+        submitLanguage: spec.submit_language ?? base?.submitLanguage,
+        projectFiles: spec.project_files ?? base?.projectFiles,
+      });
+    }
+  }
+}
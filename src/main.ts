@@ -9,10 +9,15 @@ import { ConfigManager, AppConfig } from "./config.js";
 import { SubmitManager } from "./submit.js";
 import { CookieExporter } from "./cookie-export.js";
 import { GenManager } from "./gen.js";
+import { InputGenManager } from "./gen-input.js";
 import { BuildManager } from "./build.js";
 import { TestManager } from "./test.js";
+import { StressManager } from "./stress.js";
+import { isAllPassed } from "./test-report.js";
 import { ProblemManager } from "./problem.js";
-import { expandHomeDir, compactHomeDir, logError, getSourceFilename } from "./utils.js";
+import { ProblemCache, DEFAULT_PROBLEM_CACHE_TTL_HOURS } from "./problem-cache.js";
+import { expandHomeDir, compactHomeDir, logError } from "./utils.js";
+import { LanguageRegistry, DEFAULT_LANGUAGE, getLangOption } from "./languages.js";
 import { execSync } from "child_process";
 
 export class AtCoderGUI {
@@ -21,19 +26,23 @@ export class AtCoderGUI {
   private submitManager: SubmitManager;
   private cookieExporter: CookieExporter;
   private genManager: GenManager;
+  private inputGenManager: InputGenManager;
   private buildManager: BuildManager;
   private testManager: TestManager;
+  private stressManager: StressManager;
   private problemManager: ProblemManager;
   private rl: readline.Interface | null = null;
 
   constructor() {
     this.browserManager = new BrowserManager();
     this.configManager = new ConfigManager(true);
-    this.submitManager = new SubmitManager(this.browserManager);
+    this.submitManager = new SubmitManager(this.browserManager, this.configManager);
     this.cookieExporter = new CookieExporter(this.browserManager);
     this.genManager = new GenManager(this.browserManager, this.configManager);
+    this.inputGenManager = new InputGenManager(this.browserManager, this.configManager);
     this.buildManager = new BuildManager(this.configManager);
-    this.testManager = new TestManager(this.configManager, this.buildManager);
+    this.testManager = new TestManager(this.configManager, this.buildManager, this.inputGenManager);
+    this.stressManager = new StressManager(this.configManager, this.buildManager, this.testManager);
     this.problemManager = new ProblemManager(this.browserManager, this.configManager);
   }
 
@@ -107,14 +116,16 @@ export class AtCoderGUI {
   }
 
   private async promptLanguage(rl: readline.Interface): Promise<string> {
+    const registry = new LanguageRegistry(this.configManager);
+    const ids = registry.list().map((language) => language.id);
     return new Promise((resolve) => {
       const ask = () => {
-        rl.question("Choose your default language (cpp/python) [cpp]: ", (answer) => {
-          const lang = answer.trim().toLowerCase() || "cpp";
-          if (lang === "cpp" || lang === "python") {
-            resolve(lang);
+        rl.question(`Choose your default language (${ids.join("/")}) [${DEFAULT_LANGUAGE}]: `, (answer) => {
+          const language = registry.find(answer.trim() || DEFAULT_LANGUAGE);
+          if (language) {
+            resolve(language.id);
           } else {
-            console.log("Please enter 'cpp' or 'python'.");
+            console.log(`Please enter one of: ${ids.join(", ")}.`);
             ask();
           }
         });
@@ -198,10 +209,10 @@ export class AtCoderGUI {
 
     const expandedDir = expandHomeDir(workspaceDir);
     const packageRoot = this.configManager.getPackageRoot();
-    const language = this.getConfig().language || "cpp";
+    const language = this.getConfig().language || DEFAULT_LANGUAGE;
     const vscodeTemplateDir = path.join(packageRoot, "vscode-project-files", language, ".vscode");
     const targetVscodeDir = path.join(expandedDir, ".vscode");
-    const codeFilename = getSourceFilename(language);
+    const codeFilename = new LanguageRegistry(this.configManager).get(language).sourceFilename;
 
     if (fs.existsSync(vscodeTemplateDir)) {
       if (!fs.existsSync(targetVscodeDir)) {
@@ -342,6 +353,38 @@ export class AtCoderGUI {
         }
         break;
 
+      case "cache":
+        {
+          const problemCache = new ProblemCache(
+            this.getConfig().problemCacheTtlHours ?? DEFAULT_PROBLEM_CACHE_TTL_HOURS,
+          );
+          switch (args[1]?.toLowerCase()) {
+            case "list": {
+              const entries = problemCache.list();
+              if (entries.length === 0) {
+                console.log(`No cached problems in ${compactHomeDir(problemCache.dir)}`);
+                break;
+              }
+              console.log(`Cached problems in ${compactHomeDir(problemCache.dir)}:`);
+              for (const entry of entries) {
+                const size = `${Math.ceil(entry.size / 1024)} KB`;
+                console.log(
+                  `  ${entry.taskId.padEnd(16)} ${entry.fetchedAt.toLocaleString()}  ${size.padStart(7)}${entry.expired ? "  (expired)" : ""}`,
+                );
+              }
+              break;
+            }
+            case "clear": {
+              const count = problemCache.clear(args[2]);
+              console.log(`Deleted ${count} cached problem${count === 1 ? "" : "s"}.`);
+              break;
+            }
+            default:
+              console.log("Usage: cache list | cache clear [<contest-id>|<task-id>]");
+          }
+        }
+        break;
+
       case "build":
         await this.buildManager.run(args);
         break;
@@ -354,10 +397,30 @@ export class AtCoderGUI {
       case "sub":
       case "subm":
       case "submi":
-      case "submit":
-        if (!(await this.submitManager.submitSolution(args[1]))) {
+      case "submit": {
+        const autoSubmit = args.includes("--auto") || this.getConfig().autoSubmit === true;
+        const lang = getLangOption(args);
+        const filename = args
+          .slice(1)
+          .find((arg, i, rest) => !arg.startsWith("-") && rest[i - 1] !== "--lang" && rest[i - 1] !== "-l");
+
+        // Run the samples first and refuse to submit a failing solution unless --force is given
+        if (this.getConfig().submitGuard) {
+          // Test the file that is going to be submitted
+          const testArgs = filename ? ["test", "--file", filename] : lang ? ["test", "--lang", lang] : ["test"];
+          if (!isAllPassed(await this.testManager.run(testArgs)) && !args.includes("--force")) {
+            logError("Submission blocked because some samples failed. Use 'submit --force' to submit anyway.");
+            break;
+          }
+          await this.submitManager.submitSolution(filename, autoSubmit, lang);
           break;
         }
+
+        // With auto submission the judge verdict is shown, so local tests are not repeated afterwards
+        if (!(await this.submitManager.submitSolution(filename, autoSubmit, lang)) || autoSubmit) {
+          break;
+        }
+      }
       // eslint-disable-next-line no-fallthrough
       case "te":
       case "tes":
@@ -365,6 +428,14 @@ export class AtCoderGUI {
         await this.testManager.run(args);
         break;
 
+      case "gen-input":
+        await this.inputGenManager.run(args);
+        break;
+
+      case "stress":
+        await this.stressManager.run(args);
+        break;
+
       case "cd":
         {
           const dir = args.length >= 2 ? args[1] : this.getConfig().workspaceDir || "~";
@@ -396,11 +467,15 @@ Available commands:
   open <URL>           Open a URL in the browser
   config               Show current configuration
   setup-vscode         Setup VSCode configuration files in the workspace directory
-  submit <filename>    Submit solution to AtCoder
-  gen <contest-id>     Generate source code from current problem page or contest ID
+  submit <filename>    Submit solution to AtCoder (--auto: click submit and track the verdict, --lang <lang>)
+  gen <contest-id>     Generate source code from current problem page or contest ID (--lang <lang>, --wait)
+  gen-input            Generate random inputs from the input format and constraints (--count N, --seed S)
   make <args>          Execute make command
-  test                 Execute test command
-  build                Build the source code specified in metadata.json
+  test                 Execute test command (--report json|junit, --report-file <path>, --jobs N, --maxcase, --lang <lang>, --file <file>)
+  stress               Compare with naive.py/naive.cpp on inputs from gen.py/gen.cpp (--count N, --gen <file>, --naive <file>)
+  build                Build the source code specified in metadata.json (--lang <lang>, --file <file>)
+  cache list           List the problem pages cached by gen, gen-input and the checker
+  cache clear [<id>]   Delete the cached problem pages (all, or those of a contest or task ID)
   export <target>      Export data to external tools
   cd <directory>       Change current directory
   close                Close the browser (if running)
@@ -416,7 +491,12 @@ Examples:
   open https://atcoder.jp
   open https://atcoder.jp/contests/abc123
   submit               (run from atcoder-tools directory)
+  submit --auto        (submit and wait for the judge result)
+  submit --force       (submit even if samples fail while submitGuard is enabled)
   gen https://atcoder.jp/contests/abc123/tasks/abc123_a
+  gen abc123 --lang cpp,python (generate main.cpp and main.py for each problem)
+  gen abc123 --wait (count down to the contest start and generate as soon as the problems are visible)
+  test --lang python   (test main.py of a problem generated for several languages)
   export atcoder-tools (export REVEL_FLASH and REVEL_SESSION cookies)
   export atcoder-cli   (export cookies to atcoder-cli session.json)
   export oj            (export cookies to online-judge-tools)
@@ -0,0 +1,139 @@
+import fs from "fs";
+import path from "path";
+import { resolveDataDir } from "./file-store.js";
+import { ConfigManager } from "./config.js";
+import { isProblemPage } from "./analyzer/html-parser.js";
+
+export const DEFAULT_PROBLEM_CACHE_TTL_HOURS = 168;
+
+export interface ProblemCacheEntry {
+  taskId: string;
+  path: string;
+  fetchedAt: Date;
+  size: number;
+  expired: boolean;
+}
+
+/**
+ * Problem pages keyed by task ID, shared by "gen" and the checker script so that code can be regenerated and the
+ * analysis re-run offline. Each page is a `<taskId>.html` file and its modification time is the fetch time.
+ */
+export class ProblemCache {
+  public readonly dir: string;
+  private ttlMs: number;
+
+  constructor(ttlHours: number = DEFAULT_PROBLEM_CACHE_TTL_HOURS, useUserConfig: boolean = true, cwd?: string) {
+    this.dir = path.join(resolveDataDir(useUserConfig, cwd), "problems");
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Cached HTML of the task, or undefined if it is missing or expired (unless `allowExpired`)
+   */
+  get(taskId: string, allowExpired: boolean = false): string | undefined {
+    const entry = this.getEntry(`${taskId}.html`);
+    if (!entry || (entry.expired && !allowExpired)) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(entry.path, "utf-8");
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(taskId: string, html: string): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.filePath(taskId), html);
+  }
+
+  /**
+   * Return the cached HTML of the task, or fetch and cache it. Only problem statements are cached, so that a 404 page
+   * or a login page is fetched again next time. When fetching fails, an expired page is used instead.
+   */
+  async getOrFetch(taskId: string, fetchHtml: () => Promise<string | undefined>): Promise<string | undefined> {
+    const cached = this.get(taskId);
+    if (cached !== undefined) {
+      console.log(`Using cached problem page: ${this.filePath(taskId)}`);
+      return cached;
+    }
+
+    // An expired page to fall back on
+    const expired: ProblemCacheEntry | undefined = this.getEntry(`${taskId}.html`);
+    let html: string | undefined;
+    try {
+      html = await fetchHtml();
+    } catch (e) {
+      if (!expired) {
+        throw e;
+      }
+    }
+    if (html && isProblemPage(html)) {
+      this.set(taskId, html);
+      return html;
+    }
+
+    const stale = expired && this.get(taskId, true);
+    if (stale !== undefined) {
+      console.warn(`Could not fetch ${taskId}. Using the expired cache: ${this.filePath(taskId)}`);
+      return stale;
+    }
+    if (html) {
+      console.warn(`${taskId} has no input format or samples. The page is not cached.`);
+    }
+    return html;
+  }
+
+  list(): ProblemCacheEntry[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((file) => file.endsWith(".html"))
+      .sort()
+      .map((file) => this.getEntry(file))
+      .filter((entry): entry is ProblemCacheEntry => entry !== undefined);
+  }
+
+  /**
+   * Delete the cached pages of a task or contest ID (e.g. "abc400_a" or "abc400"), or all pages without it
+   * @returns The number of deleted pages
+   */
+  clear(id?: string): number {
+    const entries = this.list().filter((entry) => !id || entry.taskId === id || entry.taskId.startsWith(`${id}_`));
+    for (const entry of entries) {
+      fs.unlinkSync(entry.path);
+    }
+    return entries.length;
+  }
+
+  private filePath(taskId: string): string {
+    return path.join(this.dir, `${taskId}.html`);
+  }
+
+  private getEntry(file: string): ProblemCacheEntry | undefined {
+    const filePath = path.join(this.dir, file);
+    const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (!stat) {
+      return undefined;
+    }
+    return {
+      taskId: path.basename(file, ".html"),
+      path: filePath,
+      fetchedAt: stat.mtime,
+      size: stat.size,
+      expired: Date.now() - stat.mtime.getTime() >= this.ttlMs,
+    };
+  }
+}
+
+/**
+ * Problem cache following problemCacheTtlHours, or undefined without the user config (i.e. in tests)
+ */
+export function createProblemCache(configManager: ConfigManager): ProblemCache | undefined {
+  if (!configManager.isUserConfigEnabled()) {
+    return undefined;
+  }
+  return new ProblemCache(configManager.getConfig().problemCacheTtlHours ?? DEFAULT_PROBLEM_CACHE_TTL_HOURS);
+}
@@ -0,0 +1,219 @@
+import { spawn, ChildProcessWithoutNullStreams } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { performance } from "perf_hooks";
+
+// GNU time reports the peak RSS of the command and its descendants from wait4(), without any polling
+const GNU_TIME = "/usr/bin/time";
+// Without GNU time, VmHWM is sampled instead; it is a high-water mark, so only the growth after the last sample is missed
+const MEMORY_SAMPLING_INTERVAL_MS = 50;
+
+let timeFileCount = 0;
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  elapsedMs: number;
+  peakMemoryKb?: number;
+}
+
+export interface InteractiveResult {
+  solution: ProcessResult;
+  judge: ProcessResult;
+  /** Each line exchanged, prefixed with "judge> " or "solution> " */
+  transcript: string[];
+}
+
+interface RunningProcess {
+  child: ChildProcessWithoutNullStreams;
+  result: Promise<ProcessResult>;
+  kill: () => void;
+}
+
+/**
+ * Run a shell command with the given stdin and collect its output.
+ * @param command Command line to execute
+ * @param input Text written to stdin
+ * @param timeoutMs Kill the process after this many milliseconds
+ */
+export function runProcess(command: string, input: string, timeoutMs?: number): Promise<ProcessResult> {
+  const running = startProcess(command);
+  const timer = timeoutMs ? setTimeout(running.kill, timeoutMs) : undefined;
+  running.child.stdin.end(input);
+  return running.result.finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run a solution against a judge program, connecting the stdout of each to the stdin of the other.
+ * @param command Command line of the solution
+ * @param judgeCommand Command line of the judge
+ * @param timeoutMs Kill both processes after this many milliseconds
+ */
+export async function runInteractive(
+  command: string,
+  judgeCommand: string,
+  timeoutMs?: number,
+): Promise<InteractiveResult> {
+  const solution = startProcess(command);
+  const judge = startProcess(judgeCommand);
+  const transcript: string[] = [];
+
+  const forward = (from: RunningProcess, to: RunningProcess, label: string): void => {
+    let pending = "";
+    from.child.stdout.on("data", (chunk: string) => {
+      to.child.stdin.write(chunk);
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop() ?? "";
+      transcript.push(...lines.map((line) => `${label}> ${line}`));
+    });
+    from.child.stdout.on("end", () => {
+      if (pending) transcript.push(`${label}> ${pending}`);
+      to.child.stdin.end();
+    });
+  };
+  forward(judge, solution, "judge");
+  forward(solution, judge, "solution");
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        solution.kill();
+        judge.kill();
+      }, timeoutMs)
+    : undefined;
+
+  try {
+    const [solutionResult, judgeResult] = await Promise.all([solution.result, judge.result]);
+    return { solution: solutionResult, judge: judgeResult, transcript };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function startProcess(command: string): RunningProcess {
+  const isWindows = process.platform === "win32";
+  // Peak RSS is only available on Linux
+  const isLinux = process.platform === "linux";
+  const timeFile = isLinux && fs.existsSync(GNU_TIME) ? createTimeFilePath() : undefined;
+  const start = performance.now();
+  // A separate process group lets us kill the command together with the shell on timeout
+  const child = timeFile
+    ? spawn(GNU_TIME, ["-f", "%M", "-o", timeFile, "/bin/sh", "-c", command], {
+        detached: !isWindows,
+        stdio: ["pipe", "pipe", "pipe"],
+      })
+    : spawn(command, { shell: true, detached: !isWindows, stdio: ["pipe", "pipe", "pipe"] });
+
+  let stdout = "";
+  let stderr = "";
+  let timedOut = false;
+  child.stdout.setEncoding("utf-8");
+  child.stderr.setEncoding("utf-8");
+  child.stdout.on("data", (chunk: string) => (stdout += chunk));
+  child.stderr.on("data", (chunk: string) => (stderr += chunk));
+  // The process may exit without reading all of its input
+  child.stdin.on("error", () => {});
+
+  let peakMemoryKb: number | undefined = undefined;
+  let sampling = false;
+  const sampleMemory = async (): Promise<void> => {
+    // A slow read must not pile up with the next ones
+    if (sampling) return;
+    sampling = true;
+    const kb = await readPeakMemoryKb(child.pid);
+    sampling = false;
+    if (kb !== undefined) {
+      peakMemoryKb = Math.max(peakMemoryKb ?? 0, kb);
+    }
+  };
+  const sampler = isLinux && !timeFile ? setInterval(sampleMemory, MEMORY_SAMPLING_INTERVAL_MS) : undefined;
+
+  let settled = false;
+  const result = new Promise<ProcessResult>((resolve) => {
+    const finish = (exitCode: number | null, error?: Error): void => {
+      if (settled) return;
+      settled = true;
+      clearInterval(sampler);
+      if (timeFile) {
+        peakMemoryKb = readTimeFile(timeFile);
+      }
+      resolve({
+        stdout,
+        stderr: error ? stderr + error.message : stderr,
+        exitCode,
+        timedOut,
+        elapsedMs: Math.round(performance.now() - start),
+        peakMemoryKb,
+      });
+    };
+    child.on("error", (error) => finish(null, error));
+    child.on("close", (code) => finish(code));
+  });
+
+  const kill = (): void => {
+    if (settled) return;
+    timedOut = true;
+    killProcessTree(child.pid, isWindows, () => child.kill("SIGKILL"));
+  };
+
+  return { child, result, kill };
+}
+
+function killProcessTree(pid: number | undefined, isWindows: boolean, fallback: () => void): void {
+  if (pid === undefined || isWindows) {
+    fallback();
+    return;
+  }
+  try {
+    process.kill(-pid, "SIGKILL");
+  } catch (_) {
+    fallback();
+  }
+}
+
+function createTimeFilePath(): string {
+  return path.join(os.tmpdir(), `atcoder-gui-time-${process.pid}-${++timeFileCount}.txt`);
+}
+
+/**
+ * Read the peak RSS written by `time -f %M`, which follows a "Command exited with non-zero status" line on errors.
+ * Nothing is written if the command was killed on timeout.
+ */
+function readTimeFile(timeFile: string): number | undefined {
+  try {
+    const lines = fs.readFileSync(timeFile, "utf-8").trim().split("\n");
+    const kb = Number(lines[lines.length - 1]);
+    return lines[0] && !isNaN(kb) ? kb : undefined;
+  } catch (_) {
+    return undefined;
+  } finally {
+    fs.rmSync(timeFile, { force: true });
+  }
+}
+
+/**
+ * Read the largest VmHWM (peak resident set size) among the process and its descendants.
+ * The shell that wraps the command and the solution itself are separate processes.
+ */
+async function readPeakMemoryKb(pid: number | undefined): Promise<number | undefined> {
+  if (pid === undefined) return undefined;
+  let peak: number | undefined = undefined;
+  const pending = [pid];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    try {
+      const status = await fs.promises.readFile(`/proc/${current}/status`, "utf-8");
+      const kb = Number(status.match(/^VmHWM:\s+(\d+)\s+kB/m)?.[1]);
+      if (!isNaN(kb)) {
+        peak = Math.max(peak ?? 0, kb);
+      }
+      const children = await fs.promises.readFile(`/proc/${current}/task/${current}/children`, "utf-8");
+      pending.push(...children.split(/\s+/).filter(Boolean).map(Number));
+    } catch (_) {
+      // The process has already exited
+    }
+  }
+  return peak;
+}
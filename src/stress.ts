@@ -0,0 +1,216 @@
+import * as fs from "fs";
+import { ConfigManager } from "./config.js";
+import { BuildManager } from "./build.js";
+import { TestManager, compareOutputs } from "./test.js";
+import { AtCoderToolsMetadata } from "./types.js";
+import { LanguageRegistry, getLangOption } from "./languages.js";
+import { runProcess } from "./runner.js";
+import { logError, logSuccess } from "./utils.js";
+
+const DEFAULT_STRESS_COUNT = 100;
+// The brute force is expected to be slow, so it gets a longer time limit than the solution
+const NAIVE_TIMEOUT_RATIO = 10;
+// A generator that does not finish in this time (e.g. an endless retry loop) stops the stress test
+const GENERATOR_TIMEOUT_MS = 10000;
+
+export class StressManager {
+  private configManager: ConfigManager;
+  private buildManager: BuildManager;
+  private testManager: TestManager;
+
+  constructor(configManager: ConfigManager, buildManager: BuildManager, testManager: TestManager) {
+    this.configManager = configManager;
+    this.buildManager = buildManager;
+    this.testManager = testManager;
+  }
+
+  /**
+   * Compare the solution with a brute force on random inputs until they disagree.
+   * The generator (e.g. `gen.py`/`gen.cpp`) receives the iteration number as a seed argument and prints one input;
+   * the brute force is e.g. `naive.py`/`naive.cpp`. Both can be written in any language with build and run commands.
+   * Options: `--count N`, `--gen <file>`, `--naive <file>`, `--lang <lang>` (the code file of the solution to test).
+   * @returns true if no counterexample was found
+   */
+  async run(args: string[]): Promise<boolean> {
+    const options = this.parseOptions(args);
+    if (!options) {
+      return false;
+    }
+
+    if (!fs.existsSync("metadata.json")) {
+      logError("metadata.json not found in the current directory.");
+      return false;
+    }
+
+    const metadata: AtCoderToolsMetadata = JSON.parse(fs.readFileSync("metadata.json", "utf-8"));
+    if (metadata.judge?.judge_type === "interactive") {
+      logError("Stress testing is not supported for interactive problems.");
+      return false;
+    }
+
+    const registry = new LanguageRegistry(this.configManager);
+    const lang = getLangOption(args);
+    const codeFilename = registry.selectCodeFile(metadata, lang);
+    if (!codeFilename) {
+      logError(lang ? `No ${lang} code file in metadata.json` : "code_filename not found in metadata.json");
+      return false;
+    }
+
+    if (!(await this.buildManager.run(args))) {
+      return false;
+    }
+
+    const execCommand = this.testManager.getExecCommand(codeFilename);
+    if (!execCommand) {
+      console.log(`Stress testing not supported for ${codeFilename}`);
+      return false;
+    }
+    const genFile = options.gen ?? findSource(registry, "gen");
+    if (!genFile) {
+      logError("Input generator not found. Create gen.py or gen.cpp, or pass --gen <file>.");
+      return false;
+    }
+    const naiveFile = options.naive ?? findSource(registry, "naive");
+    if (!naiveFile) {
+      logError("Brute force solution not found. Create naive.py or naive.cpp, or pass --naive <file>.");
+      return false;
+    }
+    const genCommand = await this.prepareProgram(registry, genFile);
+    if (!genCommand) {
+      return false;
+    }
+    const naiveCommand = await this.prepareProgram(registry, naiveFile);
+    if (!naiveCommand) {
+      return false;
+    }
+
+    const timeoutMs = metadata.timeout_ms;
+    for (let i = 1; i <= options.count; i++) {
+      process.stdout.write(`\r# Stress test ${i}/${options.count}`);
+
+      const generated = await runProcess(`${genCommand} ${i}`, "", GENERATOR_TIMEOUT_MS);
+      if (generated.timedOut) {
+        process.stdout.write("\n");
+        logError(`Input generator timed out after ${GENERATOR_TIMEOUT_MS / 1000}s on seed ${i}`);
+        return false;
+      }
+      if (generated.exitCode !== 0) {
+        process.stdout.write("\n");
+        logError("Input generator failed:", generated.stderr);
+        return false;
+      }
+      const input = generated.stdout;
+
+      const naive = await runProcess(naiveCommand, input, timeoutMs && timeoutMs * NAIVE_TIMEOUT_RATIO);
+      if (naive.timedOut || naive.exitCode !== 0) {
+        process.stdout.write("\n");
+        logError(`Brute force solution failed on seed ${i}:`, naive.stderr);
+        return false;
+      }
+      const expected = naive.stdout.trim();
+
+      const result = await runProcess(execCommand, input, timeoutMs);
+      const actual = result.stdout.trim();
+      let verdict = "";
+      if (result.timedOut) {
+        verdict = "TLE";
+      } else if (result.exitCode !== 0) {
+        verdict = "RE";
+      } else if (!compareOutputs(actual, expected, metadata.judge?.judge_type, metadata.judge?.diff)) {
+        verdict = "WA";
+      }
+
+      if (verdict) {
+        process.stdout.write("\n");
+        const { inFile, outFile } = this.saveCounterexample(input, naive.stdout);
+        console.log(`# Seed ${i} ... \x1b[31m${verdict}\x1b[0m`);
+        console.log("\x1b[95m[Input]\x1b[0m");
+        console.log(input.trim());
+        console.log("\x1b[95m[Expected]\x1b[0m");
+        console.log(expected);
+        console.log("\x1b[95m[Received]\x1b[0m");
+        console.log(actual);
+        if (result.stderr) {
+          logError("Runtime error output:", result.stderr);
+        }
+        console.log(`Saved the counterexample to ${inFile} and ${outFile}`);
+        return false;
+      }
+    }
+
+    process.stdout.write("\n");
+    logSuccess(`No counterexample found in ${options.count} cases.`);
+    return true;
+  }
+
+  /**
+   * Return the command that runs a source file, building it with the build command of its language first
+   */
+  private async prepareProgram(registry: LanguageRegistry, sourceFile: string): Promise<string | undefined> {
+    if (!fs.existsSync(sourceFile)) {
+      logError(`${sourceFile} not found.`);
+      return undefined;
+    }
+    const language = registry.findByFilename(sourceFile);
+    if (!language) {
+      logError(`Stress testing not supported for ${sourceFile}`);
+      return undefined;
+    }
+    const commands = registry.getCommands(language, sourceFile);
+    if (!commands) {
+      logError(`The commands of ${language.name} cannot build ${sourceFile}. Use {file} and {name} in them.`);
+      return undefined;
+    }
+
+    if (commands.build) {
+      console.log(`Executing build command: ${commands.build}`);
+      const result = await runProcess(commands.build, "");
+      if (result.exitCode !== 0) {
+        logError(`Build of ${sourceFile} failed.`, result.stderr);
+        return undefined;
+      }
+    }
+    return commands.run;
+  }
+
+  /**
+   * Save the input and the brute force output as the next free in_stress_N.txt / out_stress_N.txt,
+   * so that `test` runs it along with the samples
+   */
+  private saveCounterexample(input: string, output: string): { inFile: string; outFile: string } {
+    let n = 1;
+    while (fs.existsSync(`in_stress_${n}.txt`)) {
+      n++;
+    }
+    const inFile = `in_stress_${n}.txt`;
+    const outFile = `out_stress_${n}.txt`;
+    fs.writeFileSync(inFile, input);
+    fs.writeFileSync(outFile, output);
+    return { inFile, outFile };
+  }
+
+  private parseOptions(args: string[]): { count: number; gen?: string; naive?: string } | undefined {
+    let count = DEFAULT_STRESS_COUNT;
+    const countIdx = args.indexOf("--count");
+    if (countIdx !== -1) {
+      count = Number(args[countIdx + 1]);
+      if (!Number.isInteger(count) || count < 1) {
+        logError(`Invalid number of cases: ${args[countIdx + 1] ?? ""}`);
+        return undefined;
+      }
+    }
+
+    const genIdx = args.indexOf("--gen");
+    const naiveIdx = args.indexOf("--naive");
+    return {
+      count,
+      gen: genIdx !== -1 ? args[genIdx + 1] : undefined,
+      naive: naiveIdx !== -1 ? args[naiveIdx + 1] : undefined,
+    };
+  }
+}
+
+function findSource(registry: LanguageRegistry, name: string): string | undefined {
+  const extensions = registry.list().flatMap((language) => language.extensions);
+  return extensions.map((extension) => `${name}${extension}`).find((file) => fs.existsSync(file));
+}
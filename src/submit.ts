@@ -1,31 +1,46 @@
 import { readFileSync, existsSync } from "fs";
 import * as path from "path";
 import { BrowserManager } from "./browser.js";
+import { ConfigManager } from "./config.js";
 import { AtCoderCliContestConfig, AtCoderToolsMetadata } from "./types.js";
+import { VerdictTracker } from "./verdict.js";
+import { LanguageRegistry } from "./languages.js";
 import { logError } from "./utils.js";
 
 export class SubmitManager {
   private browserManager: BrowserManager;
+  private configManager: ConfigManager;
+  private verdictTracker: VerdictTracker;
 
-  constructor(browserManager: BrowserManager) {
+  constructor(browserManager: BrowserManager, configManager: ConfigManager) {
     this.browserManager = browserManager;
+    this.configManager = configManager;
+    this.verdictTracker = new VerdictTracker(browserManager);
   }
 
   /**
-   * Submit solution to AtCoder
+   * Submit solution to AtCoder.
+   * When `autoSubmit` is set, the submit button is clicked and the judge status is tracked until a verdict.
+   * Without a filename, `lang` picks the code file of metadata.json written in that language.
    */
-  async submitSolution(filename: string | undefined): Promise<boolean> {
+  async submitSolution(filename: string | undefined, autoSubmit: boolean = false, lang?: string): Promise<boolean> {
     try {
       const atcoderToolsMetadataPath = "./metadata.json";
       const atcoderCliMetadataPath = "../contest.acc.json";
       if (existsSync(atcoderToolsMetadataPath)) {
         const metadata: AtCoderToolsMetadata = JSON.parse(readFileSync(atcoderToolsMetadataPath, "utf-8"));
-        this.pasteToBrowser(
+        const sourceCodePath = filename || new LanguageRegistry(this.configManager).selectCodeFile(metadata, lang);
+        if (!sourceCodePath) {
+          logError(`No ${lang} code file in metadata.json`);
+          return false;
+        }
+        return await this.pasteToBrowser(
           metadata.problem.contest.contest_id,
           metadata.problem.problem_id,
-          filename || metadata.code_filename,
+          sourceCodePath,
+          this.resolveLanguage(sourceCodePath, filename || lang ? undefined : metadata.lang),
+          autoSubmit,
         );
-        return true;
       } else if (existsSync(atcoderCliMetadataPath)) {
         if (!filename) {
           logError("filename is required");
@@ -35,8 +50,13 @@ export class SubmitManager {
         const problem_id = path.basename(process.cwd());
         for (const task of metadata.tasks) {
           if (task.directory?.path == problem_id) {
-            this.pasteToBrowser(metadata.contest.id, task.id, filename);
-            return true;
+            return await this.pasteToBrowser(
+              metadata.contest.id,
+              task.id,
+              filename,
+              this.resolveLanguage(filename),
+              autoSubmit,
+            );
           }
         }
       } else {
@@ -48,10 +68,16 @@ export class SubmitManager {
     return false;
   }
 
-  private async pasteToBrowser(contestId: string, problemId: string, sourceCodePath: string): Promise<void> {
+  private async pasteToBrowser(
+    contestId: string,
+    problemId: string,
+    sourceCodePath: string,
+    language: string | undefined,
+    autoSubmit: boolean,
+  ): Promise<boolean> {
     if (!existsSync(sourceCodePath)) {
       logError(`${sourceCodePath} not found in current directory`);
-      return;
+      return false;
     }
     const sourceCode = this.readSourceCode(sourceCodePath);
 
@@ -61,8 +87,89 @@ export class SubmitManager {
     const submitUrl = `https://atcoder.jp/contests/${contestId}/submit?taskScreenName=${problemId}`;
     await this.browserManager.openUrl(submitUrl);
 
+    if (language && !(await this.selectLanguage(language))) {
+      return false;
+    }
+
     // Copy source code to clipboard and fill the textarea
-    await this.fillSourceCodeArea(sourceCode);
+    if (!(await this.fillSourceCodeArea(sourceCode))) {
+      return false;
+    }
+
+    if (autoSubmit) {
+      const previousId = await this.verdictTracker.getLatestSubmissionId(contestId, problemId);
+      if (!(await this.clickSubmitButton())) {
+        return false;
+      }
+      if (previousId === undefined) {
+        // Without the previous submission an older verdict could be reported as the new one
+        logError("Could not read the submissions before submitting. Check the result on AtCoder.");
+      } else {
+        await this.verdictTracker.track(contestId, problemId, previousId);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determine the language key (e.g. "cpp", "python") from metadata.json or the file extension
+   */
+  private resolveLanguage(sourceCodePath: string, metadataLang?: string): string | undefined {
+    if (metadataLang) {
+      return metadataLang;
+    }
+    return new LanguageRegistry(this.configManager).findByFilename(sourceCodePath)?.id;
+  }
+
+  /**
+   * Select the submission language configured in `submitLanguage` (or the language registry) for the language key.
+   * The configured value is either an AtCoder language ID or a part of the option label.
+   */
+  private async selectLanguage(language: string): Promise<boolean> {
+    const target =
+      this.configManager.getConfig().submitLanguage?.[language] ??
+      new LanguageRegistry(this.configManager).find(language)?.submitLanguage;
+    if (!target) {
+      console.log(`No submitLanguage configured for ${language}. Keeping the selected language.`);
+      return true;
+    }
+
+    try {
+      const page = this.browserManager.getCurrentPage();
+      if (!page) {
+        throw new Error("No active page found");
+      }
+
+      await page.waitForLoadState("domcontentloaded");
+      const label = await page.evaluate((target) => {
+        const byId = /^\d+$/.test(target);
+        let label: string | null = null;
+        // The submit page has one (select2-wrapped) language select per task
+        for (const select of Array.from(
+          document.querySelectorAll<HTMLSelectElement>('select[name="data.LanguageId"]'),
+        )) {
+          const option = Array.from(select.options).find((option) =>
+            byId ? option.value === target : option.text.toLowerCase().includes(target.toLowerCase()),
+          );
+          if (option) {
+            select.value = option.value;
+            select.dispatchEvent(new Event("change", { bubbles: true }));
+            label = option.text.trim();
+          }
+        }
+        return label;
+      }, target);
+
+      if (!label) {
+        logError(`Language "${target}" not found on the submit page. Check submitLanguage in config.json5.`);
+        return false;
+      }
+      console.log(`✓ Language: ${label}`);
+      return true;
+    } catch (error) {
+      logError("selecting language", error);
+      return false;
+    }
   }
 
   /**
@@ -100,7 +207,7 @@ export class SubmitManager {
   /**
    * Fill the source code area on AtCoder submit page
    */
-  private async fillSourceCodeArea(sourceCode: string): Promise<void> {
+  private async fillSourceCodeArea(sourceCode: string): Promise<boolean> {
     try {
       const page = this.browserManager.getCurrentPage();
       if (!page) {
@@ -121,8 +228,30 @@ export class SubmitManager {
       await page.fill(textareaSelector, sourceCode);
 
       console.log("✓ Copied!");
+      return true;
     } catch (error) {
       logError("filling source code area", error);
+      return false;
+    }
+  }
+
+  /**
+   * Click the submit button on AtCoder submit page
+   */
+  private async clickSubmitButton(): Promise<boolean> {
+    try {
+      const page = this.browserManager.getCurrentPage();
+      if (!page) {
+        throw new Error("No active page found");
+      }
+
+      await page.click("#submit");
+      await page.waitForLoadState("domcontentloaded");
+      console.log("✓ Submitted!");
+      return true;
+    } catch (error) {
+      logError("clicking submit button", error);
+      return false;
     }
   }
 }
@@ -0,0 +1,227 @@
+import { logError, logSuccess } from "./utils.js";
+
+export type Verdict = "AC" | "WA" | "RE" | "TLE";
+
+/** A case inside a sample of a multi-testcase problem whose output differs from the expected one */
+export interface FailedCase {
+  /** Number of the case in the sample, starting from 1 */
+  index: number;
+  input: string;
+  expected: string;
+  stdout: string;
+}
+
+export interface TestCaseResult {
+  id: string;
+  inputFile: string;
+  verdict: Verdict;
+  elapsedMs: number;
+  peakMemoryKb?: number;
+  input: string;
+  expected: string;
+  stdout: string;
+  stderr: string;
+  diff?: string;
+  /** Lines exchanged with the judge of an interactive problem */
+  transcript?: string[];
+  /** Messages of the interactive judge or the checker */
+  judgeStderr?: string;
+  /** The case has no expected output and only its time and memory usage were measured */
+  timingOnly?: boolean;
+  /** Number of cases in a sample of a multi-testcase problem, and the ones that failed */
+  caseCount?: number;
+  failedCases?: FailedCase[];
+  warnings?: string[];
+}
+
+export interface TestReport {
+  problemId?: string;
+  codeFilename: string;
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+  passed: number;
+  total: number;
+  cases: TestCaseResult[];
+}
+
+export type ReportFormat = "console" | "json" | "junit";
+
+export const REPORT_FORMATS: ReportFormat[] = ["console", "json", "junit"];
+
+/**
+ * Check whether every case in the report passed. A report without cases has not passed anything.
+ */
+export function isAllPassed(report: TestReport | undefined): boolean {
+  return !!report && report.total > 0 && report.passed === report.total;
+}
+
+/**
+ * Build a line-by-line diff of expected and actual output ("-" expected, "+" actual)
+ */
+export function diffLines(expected: string, actual: string): string {
+  const expectedLines = expected.split(/\r?\n/);
+  const actualLines = actual.split(/\r?\n/);
+  const lines: string[] = [];
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+    const e = expectedLines[i];
+    const a = actualLines[i];
+    if (e?.trimEnd() === a?.trimEnd()) {
+      continue;
+    }
+    lines.push(`@@ line ${i + 1} @@`);
+    if (e !== undefined) lines.push(`-${e}`);
+    if (a !== undefined) lines.push(`+${a}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Print the report to the console with colored verdicts
+ */
+export function printConsoleReport(report: TestReport): void {
+  for (const result of report.cases) {
+    const usage = `\x1b[90m${formatUsage(result)}\x1b[0m`;
+    switch (result.verdict) {
+      case "AC":
+        console.log(`# ${result.inputFile} ... \x1b[32m${result.timingOnly ? "FINISHED" : "PASSED"}\x1b[0m ${usage}`);
+        break;
+      case "WA":
+        console.log(`# ${result.inputFile} ... \x1b[31mWA\x1b[0m${formatFailedCases(result)} ${usage}`);
+        if (result.transcript) {
+          printTranscript(result);
+          break;
+        }
+        if (result.failedCases) {
+          printFailedCases(result);
+          break;
+        }
+        console.log("\x1b[95m[Input]\x1b[0m");
+        console.log(result.input.trim());
+        console.log("\x1b[95m[Expected]\x1b[0m");
+        console.log(result.expected);
+        console.log("\x1b[95m[Received]\x1b[0m");
+        console.log(result.stdout);
+        if (result.judgeStderr) {
+          console.log("\x1b[95m[Checker]\x1b[0m");
+          console.log(result.judgeStderr.trim());
+        }
+        console.log("");
+        break;
+      case "TLE":
+        console.log(`# ${result.inputFile} ... \x1b[33mTLE\x1b[0m ${usage}`);
+        break;
+      case "RE":
+        console.log(`# ${result.inputFile} ... \x1b[33mRE\x1b[0m ${usage}`);
+        if (result.stderr) {
+          logError("Runtime error output:", result.stderr);
+        }
+        break;
+    }
+    for (const warning of result.warnings ?? []) {
+      console.log(`  \x1b[33mWarning: ${warning}\x1b[0m`);
+    }
+  }
+
+  if (isAllPassed(report)) {
+    logSuccess("Passed all test cases!!!");
+  } else {
+    logError(`Some cases FAILED (passed ${report.passed} of ${report.total})`);
+  }
+}
+
+function printTranscript(result: TestCaseResult): void {
+  console.log("\x1b[95m[Transcript]\x1b[0m");
+  console.log(result.transcript?.join("\n"));
+  if (result.judgeStderr) {
+    console.log("\x1b[95m[Judge]\x1b[0m");
+    console.log(result.judgeStderr.trim());
+  }
+  console.log("");
+}
+
+/**
+ * Tell which cases of a multi-testcase sample failed, e.g. " (case 2 of 3)"
+ */
+function formatFailedCases(result: TestCaseResult): string {
+  if (!result.failedCases?.length) {
+    return "";
+  }
+  const indices = result.failedCases.map((c) => c.index).join(", ");
+  return ` (case${result.failedCases.length > 1 ? "s" : ""} ${indices} of ${result.caseCount})`;
+}
+
+function printFailedCases(result: TestCaseResult): void {
+  for (const failedCase of result.failedCases ?? []) {
+    console.log(`\x1b[95m[Input of case ${failedCase.index}]\x1b[0m`);
+    console.log(failedCase.input.trim());
+    console.log("\x1b[95m[Expected]\x1b[0m");
+    console.log(failedCase.expected);
+    console.log("\x1b[95m[Received]\x1b[0m");
+    console.log(failedCase.stdout);
+  }
+  console.log("");
+}
+
+/**
+ * Format elapsed time and peak memory, e.g. "12 ms / 3580 KB"
+ */
+export function formatUsage(result: Pick<TestCaseResult, "elapsedMs" | "peakMemoryKb">): string {
+  const parts = [`${result.elapsedMs} ms`];
+  if (result.peakMemoryKb !== undefined) {
+    parts.push(`${result.peakMemoryKb} KB`);
+  }
+  return parts.join(" / ");
+}
+
+/**
+ * Render the report as JSON
+ */
+export function renderJsonReport(report: TestReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Render the report as JUnit XML, with WA as failures and RE/TLE as errors
+ */
+export function renderJUnitReport(report: TestReport): string {
+  const suiteName = escapeXml(report.problemId || report.codeFilename);
+  const failures = report.cases.filter((c) => c.verdict === "WA").length;
+  const errors = report.cases.filter((c) => c.verdict === "RE" || c.verdict === "TLE").length;
+  const totalSeconds = report.cases.reduce((sum, c) => sum + c.elapsedMs, 0) / 1000;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<testsuites>",
+    `  <testsuite name="${suiteName}" tests="${report.total}" failures="${failures}" errors="${errors}" time="${totalSeconds}">`,
+  ];
+  for (const result of report.cases) {
+    const attributes = `name="${escapeXml(result.inputFile)}" classname="${suiteName}" time="${result.elapsedMs / 1000}"`;
+    if (result.verdict === "AC") {
+      lines.push(`    <testcase ${attributes}/>`);
+      continue;
+    }
+    const tag = result.verdict === "WA" ? "failure" : "error";
+    const body = result.verdict === "WA" ? result.diff || result.transcript?.join("\n") || "" : result.stderr;
+    lines.push(`    <testcase ${attributes}>`);
+    const message = escapeXml(result.verdict + formatFailedCases(result));
+    lines.push(`      <${tag} type="${result.verdict}" message="${message}">${escapeXml(body)}</${tag}>`);
+    if (result.stdout) {
+      lines.push(`      <system-out>${escapeXml(result.stdout)}</system-out>`);
+    }
+    if (result.stderr) {
+      lines.push(`      <system-err>${escapeXml(result.stderr)}</system-err>`);
+    }
+    lines.push("    </testcase>");
+  }
+  lines.push("  </testsuite>", "</testsuites>");
+  return lines.join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -1,161 +1,467 @@
 import * as fs from "fs";
-import { execSync } from "child_process";
+import * as os from "os";
+import * as path from "path";
 import { ConfigManager } from "./config.js";
 import { BuildManager } from "./build.js";
-import { AtCoderToolsMetadata } from "./types.js";
-import { logError, logSuccess } from "./utils.js";
+import { InputGenManager } from "./gen-input.js";
+import { AtCoderToolsMetadata, SampleCaseLines } from "./types.js";
+import { runProcess, runInteractive, ProcessResult } from "./runner.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import {
+  TestReport,
+  FailedCase,
+  Verdict,
+  ReportFormat,
+  REPORT_FORMATS,
+  diffLines,
+  printConsoleReport,
+  renderJsonReport,
+  renderJUnitReport,
+} from "./test-report.js";
+import { LanguageRegistry, getFileOption, getLangOption } from "./languages.js";
+import { logError, redirectLogToStderr } from "./utils.js";
 
-export class TestManager {
-  private configManager: ConfigManager;
-  private buildManager: BuildManager;
+const DEFAULT_LIMIT_WARNING_RATIO = 0.8;
+const CHECKER_TIMEOUT_MS = 10000;
+const MAXCASE_FILE = "maxcase.txt";
 
-  constructor(configManager: ConfigManager, buildManager: BuildManager) {
-    this.configManager = configManager;
-    this.buildManager = buildManager;
+interface TestCase {
+  id: string;
+  inFile: string;
+  outFile: string;
+  input: string;
+  expected: string;
+  /** Synthesized case without an expected output, which is only timed */
+  timingOnly?: boolean;
+}
+
+interface TestOptions {
+  format: ReportFormat;
+  reportFile?: string;
+  jobs: number;
+  maxcase: boolean;
+  lang?: string;
+  file?: string;
+}
+
+interface CaseOutcome {
+  result: ProcessResult;
+  /** Decision of the judge program or checker, if one was used */
+  accepted?: boolean;
+  transcript?: string[];
+  judgeStderr?: string;
+}
+
+/**
+ * Compare outputs token by token, allowing an absolute or relative error for the "decimal" judge type
+ */
+export function compareOutputs(
+  actual: string,
+  expected: string,
+  judgeType: string,
+  errorTolerance: number = 1e-6,
+): boolean {
+  const actualTokens = actual.split(/\s+/).filter((t) => t.length > 0);
+  const expectedTokens = expected.split(/\s+/).filter((t) => t.length > 0);
+
+  if (actualTokens.length !== expectedTokens.length) {
+    return false;
   }
 
-  private compareOutputs(actual: string, expected: string, judgeType: string, errorTolerance: number = 1e-6): boolean {
-    const actualTokens = actual.split(/\s+/).filter((t) => t.length > 0);
-    const expectedTokens = expected.split(/\s+/).filter((t) => t.length > 0);
+  for (let i = 0; i < actualTokens.length; i++) {
+    const actualToken = actualTokens[i];
+    const expectedToken = expectedTokens[i];
 
-    if (actualTokens.length !== expectedTokens.length) {
+    if (judgeType === "decimal") {
+      const actualNum = parseFloat(actualToken);
+      const expectedNum = parseFloat(expectedToken);
+
+      if (!isNaN(actualNum) && !isNaN(expectedNum)) {
+        const diff = Math.abs(actualNum - expectedNum);
+        const relativeDiff = expectedNum === 0 ? diff : diff / Math.abs(expectedNum);
+        if (diff > errorTolerance && relativeDiff > errorTolerance) {
+          return false;
+        }
+        continue;
+      }
+    }
+
+    if (actualToken !== expectedToken) {
       return false;
     }
+  }
 
-    for (let i = 0; i < actualTokens.length; i++) {
-      const actualToken = actualTokens[i];
-      const expectedToken = expectedTokens[i];
+  return true;
+}
 
-      if (judgeType === "decimal") {
-        const actualNum = parseFloat(actualToken);
-        const expectedNum = parseFloat(expectedToken);
+/**
+ * Compare the output of a multi-testcase sample case by case, using the line counts of the cases saved by "gen"
+ * @returns The cases whose output differs, or undefined if the sample no longer has the saved line counts or the
+ * difference is outside of the cases (e.g. extra lines at the end)
+ */
+export function findFailedCases(
+  input: string,
+  expected: string,
+  actual: string,
+  caseLines: SampleCaseLines,
+  judgeType: string,
+  errorTolerance?: number,
+): FailedCase[] | undefined {
+  // The first line of the input is the number of cases
+  const inputLines = input.trim().split(/\r?\n/).slice(1);
+  const expectedLines = expected.trim().split(/\r?\n/);
+  const actualLines = actual.trim().split(/\r?\n/);
+  const sum = (counts: number[]): number => counts.reduce((a, b) => a + b, 0);
+  if (sum(caseLines.input_lines) !== inputLines.length || sum(caseLines.output_lines) !== expectedLines.length) {
+    return undefined;
+  }
 
-        if (!isNaN(actualNum) && !isNaN(expectedNum)) {
-          const diff = Math.abs(actualNum - expectedNum);
-          const relativeDiff = expectedNum === 0 ? diff : diff / Math.abs(expectedNum);
-          if (diff > errorTolerance && relativeDiff > errorTolerance) {
-            return false;
-          }
-          continue;
-        }
-      }
+  const failedCases: FailedCase[] = [];
+  let inputPos = 0;
+  let outputPos = 0;
+  caseLines.input_lines.forEach((inputCount, i) => {
+    const outputCount = caseLines.output_lines[i];
+    const caseExpected = expectedLines.slice(outputPos, outputPos + outputCount).join("\n");
+    const caseActual = actualLines.slice(outputPos, outputPos + outputCount).join("\n");
+    if (!compareOutputs(caseActual, caseExpected, judgeType, errorTolerance)) {
+      failedCases.push({
+        index: i + 1,
+        input: inputLines.slice(inputPos, inputPos + inputCount).join("\n"),
+        expected: caseExpected,
+        stdout: caseActual,
+      });
+    }
+    inputPos += inputCount;
+    outputPos += outputCount;
+  });
+  return failedCases.length > 0 ? failedCases : undefined;
+}
 
-      if (actualToken !== expectedToken) {
-        return false;
-      }
+export class TestManager {
+  private configManager: ConfigManager;
+  private buildManager: BuildManager;
+  private inputGenManager?: InputGenManager;
+
+  constructor(configManager: ConfigManager, buildManager: BuildManager, inputGenManager?: InputGenManager) {
+    this.configManager = configManager;
+    this.buildManager = buildManager;
+    this.inputGenManager = inputGenManager;
+  }
+
+  /**
+   * Build and run the solution against all sample cases.
+   * Options: `--report console|json|junit` selects the renderer, `--report-file <path>` writes it to a file,
+   * `--jobs N` (`-j N`) runs up to N cases at the same time, `--maxcase` runs a synthesized worst-case input
+   * instead of the samples and only checks the time and memory usage, `--lang <lang>` picks the code file of that
+   * language when `gen --lang` generated several. A JSON or JUnit report printed to stdout is the only output there;
+   * the other messages and the build output go to stderr.
+   * @returns The test report, or undefined if the tests could not be run
+   */
+  async run(args: string[]): Promise<TestReport | undefined> {
+    const options = this.parseOptions(args);
+    if (!options) {
+      return undefined;
+    }
+
+    const reportToStdout = options.format !== "console" && !options.reportFile;
+    const restoreLog = reportToStdout ? redirectLogToStderr() : undefined;
+    let report: TestReport | undefined;
+    try {
+      report = await this.runTests(args, options, reportToStdout);
+    } finally {
+      restoreLog?.();
     }
 
-    return true;
+    if (report && report.total > 0) {
+      this.outputReport(report, options.format, options.reportFile);
+    }
+    return report;
   }
 
-  async run(args: string[]): Promise<void> {
+  private async runTests(
+    args: string[],
+    options: TestOptions,
+    reportToStdout: boolean,
+  ): Promise<TestReport | undefined> {
     if (!fs.existsSync("metadata.json")) {
       logError("metadata.json not found in the current directory.");
-      return;
+      return undefined;
     }
 
     // Run build before testing
-    const buildSuccess = await this.buildManager.run(args);
+    const buildSuccess = await this.buildManager.run(args, reportToStdout);
     if (!buildSuccess) {
-      return;
+      return undefined;
     }
 
     try {
       const metadata: AtCoderToolsMetadata = JSON.parse(fs.readFileSync("metadata.json", "utf-8"));
-      const codeFilename = metadata.code_filename;
+      const codeFilename =
+        options.file ?? new LanguageRegistry(this.configManager).selectCodeFile(metadata, options.lang);
       const timeoutMs = metadata.timeout_ms;
 
       if (!codeFilename) {
-        logError("code_filename not found in metadata.json");
-        return;
+        logError(
+          options.lang ? `No ${options.lang} code file in metadata.json` : "code_filename not found in metadata.json",
+        );
+        return undefined;
       }
 
-      let execCommand = "";
-      const runCommand = this.configManager.get("runCommand");
-
-      if (codeFilename.endsWith(".py")) {
-        const pythonRunCommand = runCommand?.python;
-        if (pythonRunCommand) {
-          execCommand = pythonRunCommand.replace("main.py", codeFilename);
-        } else {
-          execCommand = `python3 ${codeFilename}`;
-        }
-      } else if (codeFilename.endsWith(".cpp")) {
-        const cppRunCommand = runCommand?.cpp;
-        if (cppRunCommand) {
-          execCommand = cppRunCommand;
-        } else {
-          execCommand = process.platform === "win32" ? "main" : "./main";
-        }
-      } else {
+      const execCommand = this.getExecCommand(codeFilename);
+      if (!execCommand) {
         console.log(`Testing not supported for ${codeFilename}`);
-        return;
+        return undefined;
+      }
+
+      // Interactive problems are run against a local judge that receives the case file as its argument
+      const interactive = metadata.judge?.judge_type === "interactive";
+      if (interactive && options.maxcase) {
+        logError("--maxcase is not supported for interactive problems.");
+        return undefined;
+      }
+      if (interactive && !metadata.judge_program) {
+        logError(
+          'judge_program is not set in metadata.json. Set it to the command of your judge (e.g. "python3 judge.py").',
+        );
+        return undefined;
       }
 
-      const files = fs.readdirSync(".");
-      const inputFiles = files.filter((f) => /^in_.+\.txt$/.test(f)).sort();
+      const report: TestReport = {
+        problemId: metadata.problem?.problem_id,
+        codeFilename,
+        timeLimitMs: timeoutMs,
+        memoryLimitMb: metadata.memory_limit_mb,
+        passed: 0,
+        total: 0,
+        cases: [],
+      };
 
-      if (inputFiles.length === 0) {
+      const testCases = options.maxcase ? await this.synthesizeMaxCase() : this.collectSampleCases(interactive);
+      if (!testCases) {
+        return undefined;
+      }
+      if (testCases.length === 0) {
         console.log("No test cases (in_?.txt) found.");
-        return;
+        return report;
       }
 
-      let passedCount = 0;
-      let totalCount = 0;
+      // Cases may finish in any order, but the results are kept in input file order
+      const outcomes = await mapWithConcurrency(testCases, options.jobs, (testCase) =>
+        this.runCase(testCase, execCommand, metadata),
+      );
 
-      for (const inFile of inputFiles) {
-        const testId = inFile.match(/^in_(.+)\.txt$/)?.[1];
-        const outFile = `out_${testId}.txt`;
+      testCases.forEach(({ id, inFile, input, expected, timingOnly }, i) => {
+        const { result, accepted, transcript, judgeStderr } = outcomes[i];
+        const stdout = result.stdout.trim();
 
-        if (!fs.existsSync(outFile)) {
-          console.warn(`Warning: Output file ${outFile} not found for ${inFile}. Skipping.`);
-          continue;
+        let verdict: Verdict;
+        if (result.timedOut) {
+          verdict = "TLE";
+        } else if (result.exitCode !== 0) {
+          verdict = "RE";
+        } else if (
+          timingOnly ||
+          (accepted ?? compareOutputs(stdout, expected, metadata.judge?.judge_type, metadata.judge?.diff))
+        ) {
+          verdict = "AC";
+        } else {
+          verdict = "WA";
         }
 
-        totalCount++;
-        const input = fs.readFileSync(inFile, "utf-8");
-        const expectedOutput = fs.readFileSync(outFile, "utf-8").trim();
-
-        try {
-          const stdout = execSync(execCommand, {
-            input: input,
-            encoding: "utf-8",
-            stdio: ["pipe", "pipe", "inherit"],
-            timeout: timeoutMs,
-          }).trim();
-
-          if (this.compareOutputs(stdout, expectedOutput, metadata.judge?.judge_type, metadata.judge?.diff)) {
-            console.log(`# ${inFile} ... \x1b[32mPASSED\x1b[0m`);
-            passedCount++;
-          } else {
-            console.log(`# ${inFile} ... \x1b[31mWA\x1b[0m`);
-            console.log("\x1b[95m[Input]\x1b[0m");
-            console.log(input.trim());
-            console.log("\x1b[95m[Expected]\x1b[0m");
-            console.log(expectedOutput);
-            console.log("\x1b[95m[Received]\x1b[0m");
-            console.log(stdout);
-            console.log("");
-          }
-        } catch (error: any) {
-          if (error.code === "ETIMEDOUT" || error.signal === "SIGTERM") {
-            console.log(`# ${inFile} ... \x1b[33mTLE\x1b[0m`);
-          } else {
-            console.log(`# ${inFile} ... \x1b[33mRE\x1b[0m`);
-            if (error.stderr) {
-              logError("Runtime error output:", error.stderr);
-            }
-          }
+        report.total++;
+        if (verdict === "AC") {
+          report.passed++;
         }
-      }
+        const caseLines = metadata.sample_cases?.[id];
+        const failedCases =
+          verdict === "WA" && accepted === undefined && caseLines
+            ? findFailedCases(input, expected, stdout, caseLines, metadata.judge?.judge_type, metadata.judge?.diff)
+            : undefined;
+        report.cases.push({
+          id,
+          inputFile: inFile,
+          verdict,
+          elapsedMs: result.elapsedMs,
+          peakMemoryKb: result.peakMemoryKb,
+          input,
+          expected,
+          stdout,
+          stderr: result.stderr,
+          diff: verdict === "WA" && accepted === undefined ? diffLines(expected, stdout) : undefined,
+          timingOnly,
+          caseCount: failedCases ? caseLines?.input_lines.length : undefined,
+          failedCases,
+          transcript,
+          judgeStderr,
+          warnings: this.checkLimits(result, timeoutMs, metadata.memory_limit_mb),
+        });
+      });
 
-      if (passedCount === totalCount) {
-        logSuccess("Passed all test cases!!!");
-      } else {
-        logError(`Some cases FAILED (passed ${passedCount} of ${totalCount})`);
-      }
+      return report;
     } catch (error) {
       logError("Error reading or parsing metadata.json:", error);
     }
+    return undefined;
+  }
+
+  /**
+   * Collect the cases in_*.txt that have a matching out_*.txt (the expected output is optional for interactive problems)
+   */
+  private collectSampleCases(interactive: boolean): TestCase[] {
+    const inputFiles = fs
+      .readdirSync(".")
+      .filter((f) => /^in_.+\.txt$/.test(f))
+      .sort();
+
+    const testCases: TestCase[] = [];
+    for (const inFile of inputFiles) {
+      const testId = inFile.match(/^in_(.+)\.txt$/)?.[1] ?? inFile;
+      const outFile = `out_${testId}.txt`;
+
+      if (!interactive && !fs.existsSync(outFile)) {
+        console.warn(`Warning: Output file ${outFile} not found for ${inFile}. Skipping.`);
+        continue;
+      }
+
+      const input = fs.readFileSync(inFile, "utf-8");
+      const expected = fs.existsSync(outFile) ? fs.readFileSync(outFile, "utf-8").trim() : "";
+      testCases.push({ id: testId, inFile, outFile, input, expected });
+    }
+    return testCases;
+  }
+
+  /**
+   * Synthesize an input with every variable at its upper bound and save it as maxcase.txt
+   * @returns The case, or undefined if the input could not be synthesized
+   */
+  private async synthesizeMaxCase(): Promise<TestCase[] | undefined> {
+    if (!this.inputGenManager) {
+      logError("--maxcase is not available.");
+      return undefined;
+    }
+    const inputs = await this.inputGenManager.synthesize("max", 1);
+    if (!inputs) {
+      return undefined;
+    }
+    fs.writeFileSync(MAXCASE_FILE, inputs[0]);
+    return [{ id: "maxcase", inFile: MAXCASE_FILE, outFile: "", input: inputs[0], expected: "", timingOnly: true }];
+  }
+
+  /**
+   * Resolve the command that runs the given source file
+   * @returns The command, or undefined if the language is not supported
+   */
+  getExecCommand(codeFilename: string): string | undefined {
+    const registry = new LanguageRegistry(this.configManager);
+    const language = registry.findByFilename(codeFilename);
+    return language && registry.getCommands(language, codeFilename)?.run;
+  }
+
+  /**
+   * Run one case. Interactive problems are judged by `judge_program` and problems with a `checker` by the checker;
+   * otherwise `accepted` is left undefined and the output is compared with the expected output.
+   */
+  private async runCase(testCase: TestCase, execCommand: string, metadata: AtCoderToolsMetadata): Promise<CaseOutcome> {
+    if (metadata.judge?.judge_type === "interactive") {
+      const { solution, judge, transcript } = await runInteractive(
+        execCommand,
+        `${metadata.judge_program} ${testCase.inFile}`,
+        metadata.timeout_ms,
+      );
+      return { result: solution, accepted: judge.exitCode === 0, transcript, judgeStderr: judge.stderr };
+    }
+
+    const result = await runProcess(execCommand, testCase.input, metadata.timeout_ms);
+    if (!metadata.checker || testCase.timingOnly || result.timedOut || result.exitCode !== 0) {
+      return { result };
+    }
+
+    // testlib-style checkers are called as `checker input output answer` and exit with 0 when the output is correct
+    const outputFile = path.join(os.tmpdir(), `atcoder-gui-${process.pid}-out_${testCase.id}.txt`);
+    fs.writeFileSync(outputFile, result.stdout);
+    try {
+      const checked = await runProcess(
+        `${metadata.checker} "${testCase.inFile}" "${outputFile}" "${testCase.outFile}"`,
+        "",
+        CHECKER_TIMEOUT_MS,
+      );
+      return { result, accepted: checked.exitCode === 0, judgeStderr: checked.stderr };
+    } finally {
+      fs.rmSync(outputFile, { force: true });
+    }
+  }
+
+  /**
+   * Warn when a case uses more than `limitWarningRatio` of the time or memory limit
+   */
+  private checkLimits(result: ProcessResult, timeLimitMs?: number, memoryLimitMb?: number): string[] | undefined {
+    const ratio = this.configManager.get("limitWarningRatio") ?? DEFAULT_LIMIT_WARNING_RATIO;
+    const warnings: string[] = [];
+    if (timeLimitMs && !result.timedOut && result.elapsedMs > timeLimitMs * ratio) {
+      const percent = Math.round((result.elapsedMs / timeLimitMs) * 100);
+      warnings.push(`${result.elapsedMs} ms is ${percent}% of the time limit (${timeLimitMs} ms)`);
+    }
+    if (memoryLimitMb && result.peakMemoryKb !== undefined && result.peakMemoryKb > memoryLimitMb * 1024 * ratio) {
+      const percent = Math.round((result.peakMemoryKb / (memoryLimitMb * 1024)) * 100);
+      warnings.push(`${result.peakMemoryKb} KB is ${percent}% of the memory limit (${memoryLimitMb} MB)`);
+    }
+    return warnings.length > 0 ? warnings : undefined;
+  }
+
+  private parseOptions(args: string[]): TestOptions | undefined {
+    let format: ReportFormat = "console";
+    let reportFile: string | undefined = undefined;
+    let jobs = 1;
+
+    const reportIdx = args.indexOf("--report");
+    if (reportIdx !== -1) {
+      const value = args[reportIdx + 1]?.toLowerCase() as ReportFormat;
+      if (!REPORT_FORMATS.includes(value)) {
+        logError(`Unknown report format: ${args[reportIdx + 1] ?? ""} (available: ${REPORT_FORMATS.join(", ")})`);
+        return undefined;
+      }
+      format = value;
+    }
+
+    const fileIdx = args.indexOf("--report-file");
+    if (fileIdx !== -1 && fileIdx + 1 < args.length) {
+      reportFile = args[fileIdx + 1];
+    }
+
+    const jobsIdx = args.findIndex((arg) => arg === "--jobs" || arg === "-j");
+    if (jobsIdx !== -1) {
+      jobs = Number(args[jobsIdx + 1]);
+      if (!Number.isInteger(jobs) || jobs < 1) {
+        logError(`Invalid number of jobs: ${args[jobsIdx + 1] ?? ""}`);
+        return undefined;
+      }
+    }
+    return {
+      format,
+      reportFile,
+      jobs,
+      maxcase: args.includes("--maxcase"),
+      lang: getLangOption(args),
+      file: getFileOption(args),
+    };
+  }
+
+  private outputReport(report: TestReport, format: ReportFormat, reportFile?: string): void {
+    let text = "";
+    if (format === "json") {
+      text = renderJsonReport(report);
+    } else if (format === "junit") {
+      text = renderJUnitReport(report);
+    }
+
+    if (reportFile) {
+      fs.writeFileSync(reportFile, text || renderJsonReport(report));
+      console.log(`Saved test report to ${reportFile}`);
+    }
+    if (format === "console" || reportFile) {
+      printConsoleReport(report);
+    } else {
+      console.log(text);
+    }
   }
 }
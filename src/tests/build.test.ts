@@ -53,4 +53,69 @@ describe("BuildManager", () => {
     expect(result).toBe(true);
     expect(utils.logError).not.toHaveBeenCalled();
   });
+
+  it("should build Rust sources with the default Rust build command", async () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ code_filename: "main.rs" }));
+    vi.mocked(execSync).mockReturnValue("" as any);
+
+    const result = await buildManager.run([]);
+    expect(result).toBe(true);
+    expect(execSync).toHaveBeenCalledWith("rustc -O --edition 2021 main.rs -o main", expect.anything());
+  });
+
+  it("should build Java sources with the default Java build command", async () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ code_filename: "Main.java" }));
+    vi.mocked(execSync).mockReturnValue("" as any);
+
+    const result = await buildManager.run([]);
+    expect(result).toBe(true);
+    expect(execSync).toHaveBeenCalledWith("javac Main.java", expect.anything());
+  });
+
+  it("should build Go sources with the configured Go build command", async () => {
+    vi.spyOn(configManager, "getConfig").mockReturnValue({
+      buildCommand: { go: "go build -trimpath -o main main.go" },
+    });
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ code_filename: "main.go" }));
+    vi.mocked(execSync).mockReturnValue("" as any);
+
+    const result = await buildManager.run([]);
+    expect(result).toBe(true);
+    expect(execSync).toHaveBeenCalledWith("go build -trimpath -o main main.go", expect.anything());
+  });
+
+  it("should not build Python sources", async () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ code_filename: "main.py" }));
+
+    const result = await buildManager.run([]);
+    expect(result).toBe(true);
+    expect(execSync).not.toHaveBeenCalled();
+  });
+
+  it("should build the code file of the language given by --lang", async () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(
+      JSON.stringify({ code_filename: "main.py", code_filenames: ["main.py", "main.cpp"] }),
+    );
+    vi.mocked(execSync).mockReturnValue("" as any);
+
+    expect(await buildManager.run(["build", "--lang", "cpp"])).toBe(true);
+    expect(execSync).toHaveBeenCalledWith("g++ main.cpp", expect.anything());
+
+    expect(await buildManager.run(["build", "--lang", "rust"])).toBe(false);
+    expect(utils.logError).toHaveBeenCalledWith("No rust code file in metadata.json");
+  });
+
+  it("should build the code file given by --file", async () => {
+    vi.mocked(configManager.getConfig).mockReturnValue({ buildCommand: { cpp: "g++ {file}" } });
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ code_filename: "main.py" }));
+
+    expect(await buildManager.run(["build", "--file", "sub.cpp"])).toBe(true);
+    expect(execSync).toHaveBeenCalledWith("g++ sub.cpp", expect.anything());
+  });
 });
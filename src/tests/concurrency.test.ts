@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mapWithConcurrency, RateLimiter } from "../concurrency.js";
+
+describe("mapWithConcurrency", () => {
+  it("should keep the order of the results and run at most limit calls at a time", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:0"]);
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should space out the calls by the interval", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(200);
+    const started: number[] = [];
+    const start = Date.now();
+
+    const calls = Promise.all(
+      [0, 1, 2].map(async () => {
+        await limiter.wait();
+        started.push(Date.now() - start);
+      }),
+    );
+    await vi.advanceTimersByTimeAsync(500);
+    await calls;
+
+    expect(started).toEqual([0, 200, 400]);
+  });
+});
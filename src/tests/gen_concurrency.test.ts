@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GenManager } from "../gen";
+import { BrowserManager } from "../browser";
+import { ConfigManager } from "../config";
+import fs from "fs";
+
+describe("GenManager contest generation", () => {
+  let browserManager: BrowserManager;
+  let configManager: ConfigManager;
+  let genManager: GenManager;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    browserManager = new BrowserManager();
+    configManager = new ConfigManager();
+    genManager = new GenManager(browserManager, configManager);
+
+    const rows = ["a", "b", "c", "d"]
+      .map(
+        (task) => `
+          <tr>
+            <td><a href="/contests/abc400/tasks/abc400_${task}">${task.toUpperCase()}</a></td>
+            <td><a href="/contests/abc400/tasks/abc400_${task}">Problem</a></td>
+          </tr>`,
+      )
+      .join("");
+    vi.spyOn(browserManager, "fetchRawHtml").mockResolvedValue(`<table><tbody>${rows}</tbody></table>`);
+    vi.spyOn(browserManager, "openUrl").mockResolvedValue(undefined);
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(process, "chdir").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should generate the problems concurrently up to genConcurrency and report the progress", async () => {
+    vi.spyOn(configManager, "getConfig").mockReturnValue({ workspaceDir: "./temp", genConcurrency: 2 });
+
+    let running = 0;
+    let maxRunning = 0;
+    vi.spyOn(genManager, "generateCode").mockImplementation(async (_contestId, taskId) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, taskId === "abc400_a" ? 30 : 5));
+      running--;
+      return taskId !== "abc400_c";
+    });
+
+    await genManager.run(["gen", "abc400"]);
+
+    expect(genManager.generateCode).toHaveBeenCalledTimes(4);
+    expect(maxRunning).toBe(2);
+
+    const lines = vi.mocked(console.log).mock.calls.map((call) => String(call[0]));
+    expect(lines.filter((line) => /^\[\d\/4\] Problem [A-D]: /.test(line))).toHaveLength(4);
+    expect(lines).toContain("[4/4] Problem A: \x1b[32mSUCCEEDED\x1b[0m");
+    // The summary keeps the order of the problems
+    const summary = lines.slice(lines.indexOf("abc400 code generation results:") + 1, -1);
+    expect(summary.slice(0, 4)).toEqual([
+      "  Problem A: \x1b[32mSUCCEEDED\x1b[0m",
+      "  Problem B: \x1b[32mSUCCEEDED\x1b[0m",
+      "  Problem C: \x1b[31mFAILED\x1b[0m",
+      "  Problem D: \x1b[32mSUCCEEDED\x1b[0m",
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import { InputGenManager } from "../gen-input.js";
+import { BrowserManager } from "../browser.js";
+import { ConfigManager } from "../config.js";
+import { ProblemCache } from "../problem-cache.js";
+
+const html = fs.readFileSync(path.resolve(__dirname, "../../test-resources/single-case-example.html"), "utf-8");
+
+describe("InputGenManager", () => {
+  let browserManager: BrowserManager;
+  let configManager: ConfigManager;
+  let inputGenManager: InputGenManager;
+
+  beforeEach(() => {
+    browserManager = new BrowserManager();
+    configManager = new ConfigManager();
+    inputGenManager = new InputGenManager(browserManager, configManager);
+    vi.spyOn(browserManager, "fetchRawHtml").mockResolvedValue(html);
+    vi.spyOn(fs, "existsSync").mockImplementation((p) => p === "metadata.json" || p === "random_1.txt");
+    vi.spyOn(fs, "readFileSync").mockReturnValue(
+      JSON.stringify({ problem: { contest: { contest_id: "abc001" }, problem_id: "abc001_a" } }),
+    );
+    vi.spyOn(fs, "writeFileSync").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should save random inputs that follow the format and constraints", async () => {
+    await inputGenManager.run(["gen-input", "--count", "2", "--seed", "7"]);
+
+    expect(browserManager.fetchRawHtml).toHaveBeenCalledWith("https://atcoder.jp/contests/abc001/tasks/abc001_a");
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(2);
+    expect(fs.writeFileSync).toHaveBeenCalledWith("random_2.txt", expect.any(String));
+    for (const [, input] of vi.mocked(fs.writeFileSync).mock.calls) {
+      const [n, a] = String(input).trimEnd().split("\n");
+      const values = a.split(" ").map(Number);
+      expect(values).toHaveLength(Number(n));
+      expect(values.every((v) => v >= 1 && v <= 1000000000)).toBe(true);
+    }
+  });
+
+  it("should produce the same inputs for the same seed", async () => {
+    const first = await inputGenManager.synthesize("random", 3, 1);
+    const second = await inputGenManager.synthesize("random", 3, 1);
+
+    expect(first).toEqual(second);
+  });
+
+  it("should use the cached problem page without fetching it", async () => {
+    vi.spyOn(configManager, "isUserConfigEnabled").mockReturnValue(true);
+    const getOrFetch = vi.spyOn(ProblemCache.prototype, "getOrFetch").mockResolvedValue(html);
+
+    expect(await inputGenManager.synthesize("max", 1)).toHaveLength(1);
+    expect(getOrFetch).toHaveBeenCalledWith("abc001_a", expect.any(Function));
+    expect(browserManager.fetchRawHtml).not.toHaveBeenCalled();
+  });
+});
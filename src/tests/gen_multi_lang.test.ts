@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GenManager } from "../gen";
+import { BrowserManager } from "../browser";
+import { ConfigManager } from "../config";
+import fs from "fs";
+import path from "path";
+import * as pipeline from "../generator/pipeline";
+
+vi.mock("../generator/pipeline", () => ({
+  generateParseResult: vi.fn(),
+}));
+
+describe("GenManager with several languages", () => {
+  let browserManager: BrowserManager;
+  let configManager: ConfigManager;
+  let genManager: GenManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    browserManager = new BrowserManager();
+    configManager = new ConfigManager();
+    genManager = new GenManager(browserManager, configManager);
+
+    vi.spyOn(browserManager, "fetchRawHtml").mockResolvedValue("<html></html>");
+    vi.spyOn(configManager, "getConfig").mockReturnValue({});
+    vi.spyOn(fs, "writeFileSync").mockImplementation(() => undefined);
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    (pipeline.generateParseResult as any).mockReturnValue({
+      samples: [],
+      variables: [],
+      formatTree: { type: "format", children: [] },
+      multipleCases: false,
+    });
+  });
+
+  it("should write a code file per language and list them in metadata.json", async () => {
+    const savePath = "./test-dir";
+
+    expect(await genManager.generateCode("abc400", "abc400_a", savePath, "cpp,py,python")).toBe(true);
+
+    const written = vi.mocked(fs.writeFileSync).mock.calls.map((call) => call[0]);
+    expect(written).toContain(path.join(savePath, "main.cpp"));
+    expect(written).toContain(path.join(savePath, "main.py"));
+
+    const metadataCall = vi
+      .mocked(fs.writeFileSync)
+      .mock.calls.find((call) => call[0] === path.join(savePath, "metadata.json"));
+    const metadata = JSON.parse(metadataCall![1] as string);
+    expect(metadata.code_filename).toBe("main.cpp");
+    expect(metadata.code_filenames).toEqual(["main.cpp", "main.py"]);
+    expect(metadata.lang).toBe("cpp");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GenManager, parseContestStartTime, formatCountdown } from "../gen";
+import { BrowserManager } from "../browser";
+import { ConfigManager } from "../config";
+import fs from "fs";
+
+describe("parseContestStartTime", () => {
+  it("should read the start time from the page script", () => {
+    const html = '<script>var startTime = moment("2025-04-05T21:00:00+09:00");</script>';
+    expect(parseContestStartTime(html)?.toISOString()).toBe("2025-04-05T12:00:00.000Z");
+  });
+
+  it("should fall back to the contest duration", () => {
+    const html =
+      '<small class="contest-duration"><time class="fixtime fixtime-full">2025-04-05 21:00:00+0900</time></small>';
+    expect(parseContestStartTime(html)?.toISOString()).toBe("2025-04-05T12:00:00.000Z");
+  });
+
+  it("should return undefined without a start time", () => {
+    expect(parseContestStartTime("<html></html>")).toBeUndefined();
+  });
+});
+
+describe("formatCountdown", () => {
+  it("should format the remaining time", () => {
+    expect(formatCountdown(3_723_000)).toBe("01:02:03");
+    expect(formatCountdown(90_061_000)).toBe("1d 01:01:01");
+    expect(formatCountdown(-1000)).toBe("00:00:00");
+  });
+});
+
+describe("GenManager --wait", () => {
+  let browserManager: BrowserManager;
+  let configManager: ConfigManager;
+  let genManager: GenManager;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-04-05T11:59:55Z"));
+    browserManager = new BrowserManager();
+    configManager = new ConfigManager();
+    genManager = new GenManager(browserManager, configManager);
+
+    vi.spyOn(configManager, "getConfig").mockReturnValue({ workspaceDir: "./temp" });
+    vi.spyOn(browserManager, "openUrl").mockResolvedValue(undefined);
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(process, "chdir").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(genManager, "generateCode").mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should wait for the contest to start and retry until the problems are visible", async () => {
+    const tasksHtml = `<table><tbody>
+      <tr>
+        <td><a href="/contests/abc400/tasks/abc400_a">A</a></td>
+        <td><a href="/contests/abc400/tasks/abc400_a">Problem</a></td>
+      </tr>
+    </tbody></table>`;
+    const fetchTimes: number[] = [];
+    vi.spyOn(browserManager, "fetchRawHtml").mockImplementation(async (url) => {
+      if (url === "https://atcoder.jp/contests/abc400") {
+        return '<script>var startTime = moment("2025-04-05T21:00:00+09:00");</script>';
+      }
+      fetchTimes.push(Date.now());
+      // The problems show up a few seconds after the start time
+      return Date.now() >= new Date("2025-04-05T12:00:03Z").getTime() ? tasksHtml : "<table><tbody></tbody></table>";
+    });
+
+    const run = genManager.run(["gen", "abc400", "--wait"]);
+    await vi.advanceTimersByTimeAsync(15_000);
+    await run;
+
+    expect(genManager.generateCode).toHaveBeenCalledTimes(1);
+    expect(genManager.generateCode).toHaveBeenCalledWith("abc400", "abc400_a", expect.any(String), "cpp", "A");
+    // Before the start time only the first fetch is made
+    expect(fetchTimes.filter((time) => time < new Date("2025-04-05T12:00:00Z").getTime())).toHaveLength(1);
+  });
+
+  it("should not wait without --wait", async () => {
+    vi.spyOn(browserManager, "fetchRawHtml").mockResolvedValue("<table><tbody></tbody></table>");
+
+    await genManager.run(["gen", "abc400"]);
+
+    expect(browserManager.fetchRawHtml).toHaveBeenCalledTimes(1);
+    expect(genManager.generateCode).not.toHaveBeenCalled();
+  });
+});
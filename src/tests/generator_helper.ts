@@ -0,0 +1,96 @@
+import { beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { generateParseResult, ParseResult } from "../generator/pipeline.js";
+import { TemplateGenerator } from "../generator/template-generator.js";
+import { ConfigManager } from "../config.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Problem page with the given sections, and "3" as the output of the sample. The statement section is left out when
+ * the statement is empty.
+ */
+export function createHtml(statement: string, constraints: string[], inputFormat: string, sampleInput: string): string {
+  const statementSection = statement
+    ? `
+  <section>
+    <h3>Problem Statement</h3>
+    <p>${statement}</p>
+  </section>`
+    : "";
+  return `${statementSection}
+  <section>
+    <h3>Constraints</h3>
+    <ul>${constraints.map((constraint) => `<li>$${constraint}$</li>`).join("")}</ul>
+  </section>
+  <section>
+    <h3>Input</h3>
+    <pre>${inputFormat}</pre>
+  </section>
+  <section>
+    <h3>Sample Input 1</h3>
+    <pre>${sampleInput}</pre>
+  </section>
+  <section>
+    <h3>Sample Output 1</h3>
+    <pre>3</pre>
+  </section>
+`;
+}
+
+export function parse(html: string): ParseResult {
+  return generateParseResult(html, "abc999_a", "https://atcoder.jp/contests/abc999/tasks/abc999_a");
+}
+
+/**
+ * Arguments of TemplateGenerator.generate for the parsed problem page
+ */
+export function generateArgs(html: string): Parameters<TemplateGenerator["generate"]> {
+  const result = parse(html);
+  return [
+    result.formatTree!,
+    result.variables,
+    result.multipleCases,
+    result.queryType,
+    result.yesStr,
+    result.noStr,
+    result.mod,
+    result.returnType,
+    result.multipleColumns,
+    result.multipleRows,
+    result.variableArray,
+    result.constraints,
+    result.queryVariants,
+    result.graph,
+  ];
+}
+
+/**
+ * Write cpp.json5 and python.json5, edited by `edit`, to a temporary config directory before each test
+ * @returns Holder of a config manager that reads the templates from that directory
+ */
+export function useLanguageConfigs(edit: (config: string) => string): { configManager: ConfigManager } {
+  const holder = {} as { configManager: ConfigManager };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "atcoder-gui-language-configs-"));
+    for (const language of ["cpp", "python"]) {
+      const config = fs.readFileSync(path.join(__dirname, "../generator/config", `${language}.json5`), "utf-8");
+      fs.writeFileSync(path.join(tempDir, `${language}.json5`), edit(config));
+    }
+    holder.configManager = {
+      getConfigDirPath: () => tempDir,
+      isUserConfigEnabled: () => true,
+    } as unknown as ConfigManager;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  return holder;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseHtml } from "../analyzer/html-parser.js";
+import { CPlusPlusGenerator } from "../generator/cplusplus.js";
+import { PythonGenerator } from "../generator/python.js";
+import { createHtml, generateArgs, parse, useLanguageConfigs } from "./generator_helper.js";
+
+const weightedHtml = createHtml(
+  "You are given a directed graph with N vertices and M edges.",
+  ["2 \\leq N \\leq 10^5", "1 \\leq u_i, v_i \\leq N", "1 \\leq w_i \\leq 10^9"],
+  "N M\nu_1 v_1 w_1\n\\vdots\nu_M v_M w_M",
+  "3 2\n1 2 5\n2 3 4",
+);
+
+const treeHtml = createHtml(
+  "You are given a tree with N vertices.",
+  ["2 \\leq N \\leq 10^5", "1 \\leq p_i &lt; i"],
+  "N\np_2 p_3 \\ldots p_N",
+  "4\n1 1 2",
+);
+
+describe("Graph input", () => {
+  const languageConfigs = useLanguageConfigs((config) =>
+    config.replace("adjacency_list: false", "adjacency_list: true"),
+  );
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should read whether the graph is directed from the statement", () => {
+    expect(parseHtml(weightedHtml).graphType).toBe("directed");
+    expect(parseHtml(createHtml("Given an undirected graph.", [], "N", "1")).graphType).toBe("undirected");
+    expect(parseHtml(treeHtml).graphType).toBe("undirected");
+    expect(parseHtml(createHtml("Given a sequence.", [], "N", "1")).graphType).toBeUndefined();
+  });
+
+  it("should recognize a weighted edge list with the number of vertices from the constraints", () => {
+    expect(parse(weightedHtml).graph).toEqual({
+      vertices: "N",
+      edges: { type: "item", name: "M", indices: [] },
+      from: "u",
+      to: "v",
+      weight: "w",
+      directed: true,
+      oneIndexed: true,
+    });
+  });
+
+  it("should recognize the N - 1 edges of a tree and 0-indexed vertices", () => {
+    const html = createHtml(
+      "You are given a tree with N vertices numbered 0 to N-1.",
+      ["2 \\leq N \\leq 10^5", "0 \\leq A_i, B_i &lt; N"],
+      "N\nA_1 B_1\n\\vdots\nA_{N-1} B_{N-1}",
+      "3\n0 1\n1 2",
+    );
+
+    expect(parse(html).graph).toMatchObject({ vertices: "N", from: "A", to: "B", directed: false, oneIndexed: false });
+  });
+
+  it("should recognize a parent array", () => {
+    expect(parse(treeHtml).graph).toMatchObject({ vertices: "N", parent: "p", directed: false, oneIndexed: true });
+  });
+
+  it("should not recognize pairs that are not edges", () => {
+    const html = createHtml(
+      "Given a graph with N vertices whose M edges are named.",
+      ["1 \\leq N \\leq 10^5", "S_i and T_i consist of lowercase English letters."],
+      "N M\nS_1 T_1\n\\vdots\nS_M T_M",
+      "5 2\nab cd\nef gh",
+    );
+
+    expect(parse(html).graph).toBeUndefined();
+    expect(
+      parse(createHtml("Given a sequence.", ["1 \\leq u_i, v_i \\leq N"], "N M\nu_1 v_1\n\\vdots\nu_M v_M", "3 1\n1 2"))
+        .graph,
+    ).toBeUndefined();
+  });
+
+  it("should build an adjacency list only when the language config enables it", () => {
+    const args = generateArgs(weightedHtml);
+
+    expect(new CPlusPlusGenerator().generate(...args)).not.toContain("graph(N)");
+
+    const cpp = new CPlusPlusGenerator(languageConfigs.configManager).generate(...args);
+    expect(cpp).toContain(`    std::vector<std::vector<std::pair<int64_t, int64_t>>> graph(N);
+    for (int64_t i = 0; i < M; i++) {
+        graph[u[i] - 1].emplace_back(v[i] - 1, w[i]);
+    }`);
+
+    const python = new PythonGenerator(languageConfigs.configManager).generate(...generateArgs(treeHtml));
+    expect(python).toContain(`    graph: List[List[int]] = [[] for _ in range(N)]
+    for i in range(N - 1):
+        graph[p[i] - 1].append(i + 1)
+        graph[i + 1].append(p[i] - 1)`);
+  });
+
+  it("should read the N - 1 parents of the vertices 2..N", () => {
+    const args = generateArgs(treeHtml);
+
+    expect(new CPlusPlusGenerator().generate(...args)).toContain(`    std::vector<int64_t> p(N - 1);
+    for (int64_t i = 0; i < N - 1; i++) {
+        std::cin >> p[i];
+    }`);
+    expect(new PythonGenerator().generate(...args)).toContain(`    p = [0] * (N - 1)
+    for i in range(N - 1):
+        p[i] = int(next(tokens))`);
+  });
+});
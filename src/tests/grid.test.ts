@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CPlusPlusGenerator } from "../generator/cplusplus.js";
+import { PythonGenerator } from "../generator/python.js";
+import { InputSynthesizer } from "../generator/input-synthesizer.js";
+import { GridNode, VarType } from "../analyzer/types.js";
+import { createHtml, generateArgs, parse } from "./generator_helper.js";
+
+const gridFormat = `H W
+S_{1,1}S_{1,2}\\ldots S_{1,W}
+S_{2,1}S_{2,2}\\ldots S_{2,W}
+\\vdots
+S_{H,1}S_{H,2}\\ldots S_{H,W}`;
+
+function gridHtml(inputFormat: string, sampleInput: string): string {
+  return createHtml("", ["1 \\leq H, W \\leq 500", "S_{i,j} consists of . and #."], inputFormat, sampleInput);
+}
+
+describe("Grid input", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should turn rows of characters into a grid node of strings", () => {
+    const result = parse(gridHtml(gridFormat, "2 3\n.#.\n##."));
+
+    const grid = result.formatTree!.children.find((node) => node.type === "grid") as GridNode;
+    expect(grid).toMatchObject({
+      name: "S",
+      rows: { type: "item", name: "H" },
+      cols: { type: "item", name: "W" },
+    });
+    expect(result.variables.find((v) => v.name === "S")).toMatchObject({ type: VarType.String, dims: 1 });
+  });
+
+  it("should keep the rows as strings even if they are digits", () => {
+    const result = parse(gridHtml(gridFormat, "2 3\n012\n345"));
+
+    expect(result.variables.find((v) => v.name === "S")).toMatchObject({ type: VarType.String, dims: 1 });
+  });
+
+  it("should keep a matrix with spaces as nested loops", () => {
+    const matrix = "H W\nA_{1,1} \\ldots A_{1,W}\n\\vdots\nA_{H,1} \\ldots A_{H,W}";
+    const result = parse(gridHtml(matrix, "2 3\n1 2 3\n4 5 6"));
+
+    expect(result.formatTree!.children.some((node) => node.type === "grid")).toBe(false);
+    expect(result.variables.find((v) => v.name === "A")).toMatchObject({ type: VarType.ValueInt, dims: 2 });
+  });
+
+  it("should read the rows of the grid and pass the grid to the templates", () => {
+    const args = generateArgs(gridHtml(gridFormat, "2 3\n.#.\n##."));
+
+    const cpp = new CPlusPlusGenerator().generate(...args);
+    expect(cpp).toContain(`    std::vector<std::string> S(H);
+    for (int64_t i = 0; i < H; i++) {
+        std::cin >> S[i];
+    }`);
+    expect(cpp).toContain("const int DX[4] = {1, 0, -1, 0};");
+
+    const python = new PythonGenerator().generate(...args);
+    expect(python).toContain("    S = [next(tokens) for _ in range(H)]");
+    expect(python).toContain("DIRECTIONS = [(1, 0), (0, 1), (-1, 0), (0, -1)]");
+  });
+
+  it("should not add grid helpers without a grid", () => {
+    const args = generateArgs(gridHtml("N\nA_1 A_2 \\ldots A_N", "3\n1 2 3"));
+
+    expect(new CPlusPlusGenerator().generate(...args)).not.toContain("DX");
+    expect(new PythonGenerator().generate(...args)).not.toContain("DIRECTIONS");
+  });
+
+  it("should synthesize rows of exactly W characters", () => {
+    const result = parse(gridHtml(gridFormat, "2 3\n.#.\n##."));
+    const synthesizer = new InputSynthesizer(result);
+
+    const [header, ...rows] = synthesizer.generate({ seed: 1 }).trimEnd().split("\n");
+    const [h, w] = header.split(" ").map(Number);
+    expect(rows).toHaveLength(h);
+    expect(rows.every((row) => row.length === w && /^[.#]+$/.test(row))).toBe(true);
+  });
+});
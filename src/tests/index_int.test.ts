@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CPlusPlusGenerator } from "../generator/cplusplus.js";
+import { PythonGenerator } from "../generator/python.js";
+import { VarType } from "../analyzer/types.js";
+import { createHtml, generateArgs, parse, useLanguageConfigs } from "./generator_helper.js";
+
+const edgesHtml = createHtml(
+  "You are given an undirected graph with N vertices and M edges.",
+  ["2 \\leq N \\leq 10^5", "1 \\leq u_i &lt; v_i \\leq N", "1 \\leq w_i \\leq 10^9"],
+  "N M\nu_1 v_1 w_1\n\\vdots\nu_M v_M w_M",
+  "3 2\n1 2 5\n2 3 4",
+);
+
+const rangesHtml = createHtml(
+  "You are given a sequence A of length N.",
+  ["1 \\leq N \\leq 10^5", "1 \\leq A_i \\leq N", "1 \\leq L_i \\leq R_i \\leq N"],
+  "N Q\nA_1 A_2 \\ldots A_N\nL_1 R_1\n\\vdots\nL_Q R_Q",
+  "3 2\n1 3 2\n1 2\n2 3",
+);
+
+describe("1-based index input", () => {
+  const languageConfigs = useLanguageConfigs((config) =>
+    config.replace("// index_int:", "index_int:").replace("adjacency_list: false", "adjacency_list: true"),
+  );
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should mark the arrays bounded by 1 and a size as indices", () => {
+    const types = Object.fromEntries(parse(edgesHtml).variables.map((v) => [v.name, v.type]));
+    expect(types).toEqual({
+      N: VarType.ValueInt,
+      M: VarType.ValueInt,
+      u: VarType.IndexInt,
+      v: VarType.IndexInt,
+      w: VarType.ValueInt,
+    });
+
+    const ranges = parse(rangesHtml).variables;
+    expect(ranges.filter((v) => v.type === VarType.IndexInt).map((v) => v.name)).toEqual(["A", "L", "R"]);
+  });
+
+  it("should read indices as the other integers by default", () => {
+    const args = generateArgs(edgesHtml);
+
+    const cpp = new CPlusPlusGenerator().generate(...args);
+    expect(cpp).toContain("std::cin >> u[i] >> v[i] >> w[i];");
+    expect(cpp).not.toContain("--");
+
+    expect(new PythonGenerator().generate(...args)).toContain("u[i] = int(next(tokens))");
+  });
+
+  it("should decrement indices when the language config enables it", () => {
+    const args = generateArgs(edgesHtml);
+
+    const cpp = new CPlusPlusGenerator(languageConfigs.configManager).generate(...args);
+    expect(cpp).toContain("std::cin >> u[i]; u[i]--;");
+    expect(cpp).toContain("std::cin >> w[i];");
+    // The adjacency list no longer shifts the vertices that were read as 0-based
+    expect(cpp).toContain("graph[u[i]].emplace_back(v[i], w[i]);");
+
+    const python = new PythonGenerator(languageConfigs.configManager).generate(...generateArgs(rangesHtml));
+    expect(python).toContain("L[i] = int(next(tokens)) - 1");
+    expect(python).toContain("R[i] = int(next(tokens)) - 1");
+  });
+});
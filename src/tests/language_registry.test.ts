@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LanguageRegistry } from "../languages.js";
+import { TemplateGenerator } from "../generator/template-generator.js";
+import { ConfigManager } from "../config.js";
+import { VarType } from "../analyzer/types.js";
+
+describe("LanguageRegistry", () => {
+  let configDir: string;
+  let configManager: ConfigManager;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), "atcoder-gui-languages-"));
+    configManager = {
+      isUserConfigEnabled: () => true,
+      getConfigDirPath: () => configDir,
+      getConfig: () => ({}),
+    } as unknown as ConfigManager;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve built-in languages by ID, alias and file extension", () => {
+    const registry = new LanguageRegistry();
+
+    expect(registry.get("py").id).toBe("python");
+    expect(registry.get("C#").sourceFilename).toBe("Main.cs");
+    expect(registry.get("cobol").id).toBe("cpp");
+    expect(registry.find("cobol")).toBeUndefined();
+    expect(registry.findByFilename("naive.cc")?.id).toBe("cpp");
+    expect(registry.getCommands(registry.findByFilename("Main.kt")!)).toEqual({
+      build: "kotlinc Main.kt -include-runtime -d Main.jar",
+      run: "java -jar Main.jar",
+    });
+    expect(registry.findByFilename("README")).toBeUndefined();
+  });
+
+  it("should register a language defined by <lang>.json5 and <lang>.njk in the config directory", () => {
+    const rubyConfig = fs.readFileSync(path.join(__dirname, "../generator/config/python.json5"), "utf-8").replace(
+      "{",
+      `{
+  language: {
+    name: "Ruby",
+    aliases: ["rb"],
+    source_filename: "main.rb",
+    run_command: "ruby main.rb",
+    submit_language: "Ruby (ruby",
+  },`,
+    );
+    fs.writeFileSync(path.join(configDir, "ruby.json5"), rubyConfig);
+    fs.writeFileSync(path.join(configDir, "ruby.njk"), "# {{ formal_arguments }}\n{{ input_part | safe }}\n");
+
+    const registry = new LanguageRegistry(configManager);
+    const ruby = registry.find("rb");
+
+    expect(ruby).toMatchObject({
+      id: "ruby",
+      name: "Ruby",
+      extensions: [".rb"],
+      sourceFilename: "main.rb",
+      runCommand: "ruby main.rb",
+      submitLanguage: "Ruby (ruby",
+    });
+    expect(ruby?.buildCommand).toBeUndefined();
+    expect(registry.findByFilename("main.rb")?.id).toBe("ruby");
+
+    const code = new TemplateGenerator("ruby", configManager).generate(
+      { type: "format", children: [{ type: "item", name: "N", indices: [] } as any] },
+      [{ name: "N", type: VarType.ValueInt, dims: 0, indices: [] }],
+    );
+    expect(code).toContain("# N");
+  });
+
+  it("should override the settings of a built-in language and skip incomplete definitions", () => {
+    fs.writeFileSync(
+      path.join(configDir, "cpp.json5"),
+      '{ language: { build_command: "clang++ -O2 main.cpp -o main" } }',
+    );
+    fs.writeFileSync(path.join(configDir, "python.json5"), "{ indent_width: 4 }");
+    fs.writeFileSync(path.join(configDir, "zig.json5"), '{ language: { source_filename: "main.zig" } }');
+
+    const registry = new LanguageRegistry(configManager);
+
+    expect(registry.getCommands(registry.get("cpp"))).toEqual({ build: "clang++ -O2 main.cpp -o main", run: "./main" });
+    expect(registry.getCommands(registry.get("python"))).toEqual({ run: "uv run main.py" });
+    expect(registry.find("zig")).toBeUndefined();
+  });
+
+  it("should fill the source file into the build and run commands", () => {
+    const registry = new LanguageRegistry();
+
+    expect(registry.getCommands(registry.get("cpp"), "naive.cpp")).toEqual({
+      build: "g++ -O3 -std=c++23 -DNDEBUG naive.cpp -o naive",
+      run: "./naive",
+    });
+    expect(registry.getCommands(registry.get("go"), "gen.go")).toEqual({
+      build: "go build -o gen gen.go",
+      run: "./gen",
+    });
+  });
+
+  it("should only use commands without placeholders for other files when nothing is built", () => {
+    const settings = { buildCommand: { cpp: "g++ main.cpp -o main" }, runCommand: { python: "pypy3 main.py" } };
+    const registry = new LanguageRegistry({ ...configManager, getConfig: () => settings } as unknown as ConfigManager);
+
+    expect(registry.getCommands(registry.get("cpp"))).toEqual({ build: "g++ main.cpp -o main", run: "./main" });
+    expect(registry.getCommands(registry.get("cpp"), "naive.cpp")).toBeUndefined();
+    expect(registry.getCommands(registry.get("python"), "naive.py")).toEqual({ run: "pypy3 naive.py" });
+  });
+});
+
+describe("sourceFilename", () => {
+  const registry = new LanguageRegistry();
+
+  it("should return main.cpp for cpp", () => {
+    expect(registry.get("cpp").sourceFilename).toBe("main.cpp");
+  });
+
+  it("should return main.py for python", () => {
+    expect(registry.get("python").sourceFilename).toBe("main.py");
+  });
+
+  it("should return main.py for py", () => {
+    expect(registry.get("py").sourceFilename).toBe("main.py");
+  });
+
+  it("should return main.rs for rust", () => {
+    expect(registry.get("rust").sourceFilename).toBe("main.rs");
+  });
+
+  it("should return Main.java and Main.kt for java and kotlin", () => {
+    expect(registry.get("java").sourceFilename).toBe("Main.java");
+    expect(registry.get("kotlin").sourceFilename).toBe("Main.kt");
+  });
+
+  it("should return main.go and Main.cs for go and csharp", () => {
+    expect(registry.get("go").sourceFilename).toBe("main.go");
+    expect(registry.get("csharp").sourceFilename).toBe("Main.cs");
+  });
+
+  it("should return main.cpp for unknown languages", () => {
+    expect(registry.get("cobol").sourceFilename).toBe("main.cpp");
+  });
+
+  it("should return main.cpp for default", () => {
+    expect(registry.get("").sourceFilename).toBe("main.cpp");
+  });
+});
@@ -1,5 +1,8 @@
 import { parseHtml } from "../analyzer/html-parser.js";
-import { describe, it, expect } from "vitest";
+import { generateParseResult } from "../generator/pipeline.js";
+import { describe, it, expect, vi } from "vitest";
+import fs from "fs";
+import path from "path";
 
 describe("html-parser multipleCases input preservation", () => {
   it("should preserve the first line (T) in sample inputs when multipleCases is true", () => {
@@ -31,4 +34,22 @@ A_1 A_2 ... A_N</pre>
     // Desired behavior: it should be "2\n3\n1 2 3\n2\n10 20"
     expect(result.samples[0].input.trim()).toBe("2\n3\n1 2 3\n2\n10 20".trim());
   });
+
+  it("should split each sample into the input and output of its cases", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const html = fs.readFileSync(path.resolve(__dirname, "../../test-resources/multiple-cases-example.html"), "utf-8");
+
+    const { multipleCases, samples } = generateParseResult(
+      html,
+      "abc999_a",
+      "https://atcoder.jp/contests/abc999/tasks/abc999_a",
+    );
+
+    expect(multipleCases).toBe(true);
+    expect(samples[0].cases).toEqual([{ input: "3\n3 1 4", output: "8" }]);
+    expect(samples[1].cases).toEqual([
+      { input: "4\n1 2 3 4", output: "10" },
+      { input: "2\n1 2", output: "3" },
+    ]);
+  });
 });
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ProblemCache, createProblemCache } from "../problem-cache.js";
+import { ConfigManager } from "../config.js";
+
+describe("ProblemCache", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "atcoder-gui-problem-cache-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  // Minimal problem statement with an input format
+  const problemPage = (text: string): string => `<section><h3>Input</h3><pre>${text}</pre></section>`;
+
+  function makeExpired(cache: ProblemCache, taskId: string): void {
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(path.join(cache.dir, `${taskId}.html`), old, old);
+  }
+
+  it("should fetch a problem once and reuse it until it expires", async () => {
+    const cache = new ProblemCache(1, false, dataDir);
+    const fetchHtml = vi.fn().mockResolvedValue(problemPage("N"));
+
+    expect(await cache.getOrFetch("abc400_a", fetchHtml)).toBe(problemPage("N"));
+    expect(await cache.getOrFetch("abc400_a", fetchHtml)).toBe(problemPage("N"));
+    expect(fetchHtml).toHaveBeenCalledTimes(1);
+
+    makeExpired(cache, "abc400_a");
+    fetchHtml.mockResolvedValue(problemPage("N M"));
+    expect(await cache.getOrFetch("abc400_a", fetchHtml)).toBe(problemPage("N M"));
+    expect(fetchHtml).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fall back to an expired page when the fetch fails", async () => {
+    const cache = new ProblemCache(1, false, dataDir);
+    cache.set("abc400_a", "<html>old</html>");
+    makeExpired(cache, "abc400_a");
+
+    expect(cache.get("abc400_a")).toBeUndefined();
+    expect(await cache.getOrFetch("abc400_a", () => Promise.reject(new Error("offline")))).toBe("<html>old</html>");
+    await expect(cache.getOrFetch("abc400_b", () => Promise.reject(new Error("offline")))).rejects.toThrow("offline");
+  });
+
+  it("should not cache pages that are not problem statements", async () => {
+    const cache = new ProblemCache(1, false, dataDir);
+    const notFound = "<html><h1>404 Not Found</h1></html>";
+
+    expect(await cache.getOrFetch("abc400_a", () => Promise.resolve(notFound))).toBe(notFound);
+    expect(cache.get("abc400_a")).toBeUndefined();
+
+    cache.set("abc400_a", problemPage("N"));
+    makeExpired(cache, "abc400_a");
+    expect(await cache.getOrFetch("abc400_a", () => Promise.resolve(notFound))).toBe(problemPage("N"));
+  });
+
+  it("should only be created with the user config", () => {
+    const configManager = (userConfig: boolean): ConfigManager =>
+      ({
+        isUserConfigEnabled: () => userConfig,
+        getConfig: () => ({ problemCacheTtlHours: 1 }),
+      }) as unknown as ConfigManager;
+
+    expect(createProblemCache(configManager(false))).toBeUndefined();
+    expect(createProblemCache(configManager(true))).toBeInstanceOf(ProblemCache);
+  });
+
+  it("should list and clear the cached pages by task or contest ID", () => {
+    const cache = new ProblemCache(1, false, dataDir);
+    for (const taskId of ["abc400_a", "abc400_b", "abc4000_a", "arc190_a"]) {
+      cache.set(taskId, `<html>${taskId}</html>`);
+    }
+    makeExpired(cache, "arc190_a");
+
+    expect(cache.list().map(({ taskId, expired }) => [taskId, expired])).toEqual([
+      ["abc4000_a", false],
+      ["abc400_a", false],
+      ["abc400_b", false],
+      ["arc190_a", true],
+    ]);
+
+    expect(cache.clear("abc400")).toBe(2);
+    expect(cache.clear("arc190_a")).toBe(1);
+    expect(cache.list().map(({ taskId }) => taskId)).toEqual(["abc4000_a"]);
+    expect(cache.clear()).toBe(1);
+    expect(cache.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseHtml } from "../analyzer/html-parser.js";
+import { generateParseResult } from "../generator/pipeline.js";
+import { CPlusPlusGenerator } from "../generator/cplusplus.js";
+import { PythonGenerator } from "../generator/python.js";
+import { VarType } from "../analyzer/types.js";
+
+const html = `
+  <section>
+    <h3>Input</h3>
+    <pre>N Q
+A_1 A_2 \\ldots A_N
+query_1
+query_2
+\\vdots
+query_Q</pre>
+    <p>Each query is given in one of the following formats:</p>
+    <pre>1 x y</pre>
+    <pre>2 S</pre>
+    <pre>3 K c_1 c_2 \\ldots c_K</pre>
+  </section>
+  <section>
+    <h3>Sample Input 1</h3>
+    <pre>3 4
+1 2 3
+1 1 5
+2 abc
+3 2 4 5
+1 2 3</pre>
+  </section>
+  <section>
+    <h3>Sample Output 1</h3>
+    <pre>5
+3</pre>
+  </section>
+`;
+
+describe("Query variants", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should keep the format of each query type", () => {
+    const result = parseHtml(html);
+
+    expect(result.queryType).toBe(true);
+    expect(result.queryFormats).toEqual(["1 x y", "2 S", "3 K c_1 c_2 \\ldots c_K"]);
+  });
+
+  it("should parse the arguments of each query type and infer their types from the samples", () => {
+    const { queryVariants } = generateParseResult(
+      html,
+      "abc999_e",
+      "https://atcoder.jp/contests/abc999/tasks/abc999_e",
+    );
+
+    expect(queryVariants.map((variant) => variant.type)).toEqual([1, 2, 3]);
+    expect(queryVariants[0].variables.map(({ name, type, dims }) => ({ name, type, dims }))).toEqual([
+      { name: "x", type: VarType.ValueInt, dims: 0 },
+      { name: "y", type: VarType.ValueInt, dims: 0 },
+    ]);
+    expect(queryVariants[1].variables[0]).toMatchObject({ name: "S", type: VarType.String, dims: 0 });
+    expect(queryVariants[2].variables.map(({ name, dims }) => ({ name, dims }))).toEqual([
+      { name: "K", dims: 0 },
+      { name: "c", dims: 1 },
+    ]);
+  });
+
+  it("should read the arguments of each query type in the dispatch of the generated code", () => {
+    const result = generateParseResult(html, "abc999_e", "https://atcoder.jp/contests/abc999/tasks/abc999_e");
+    const args = [
+      result.formatTree!,
+      result.variables,
+      result.multipleCases,
+      result.queryType,
+      result.yesStr,
+      result.noStr,
+      result.mod,
+      result.returnType,
+      result.multipleColumns,
+      result.multipleRows,
+      result.variableArray,
+      result.constraints,
+      result.queryVariants,
+    ] as const;
+
+    const cpp = new CPlusPlusGenerator().generate(...args);
+    expect(cpp).toContain(`        if (type == 1) {
+            int64_t x, y;
+            std::cin >> x >> y;`);
+    expect(cpp).toContain(`        if (type == 2) {
+            std::string S;
+            std::cin >> S;`);
+    expect(cpp).toContain("            std::vector<int64_t> c(K);");
+
+    const python = new PythonGenerator().generate(...args);
+    expect(python).toContain(`        if t == 1:
+            x: int
+            x = int(next(tokens))`);
+    expect(python).toContain(`        elif t == 2:
+            S: str
+            S = next(tokens)`);
+    expect(python).toContain(`        elif t == 3:
+            K: int
+            K = int(next(tokens))
+            c = [0] * (K)`);
+    expect(python).not.toContain("pass");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { runProcess, runInteractive } from "../runner.js";
+
+const node = (script: string): string => `node -e ${JSON.stringify(script)}`;
+
+describe("runProcess", () => {
+  it("should pass stdin and collect stdout and stderr", async () => {
+    const result = await runProcess(
+      node("let s='';process.stdin.on('data',d=>s+=d).on('end',()=>{console.log(s.trim()*2);console.error('dbg')})"),
+      "21\n",
+      5000,
+    );
+
+    expect(result.stdout.trim()).toBe("42");
+    expect(result.stderr.trim()).toBe("dbg");
+    expect(result.exitCode).toBe(0);
+    expect(result.timedOut).toBe(false);
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should report a non-zero exit code", async () => {
+    const result = await runProcess(node("process.exit(3)"), "", 5000);
+
+    expect(result.exitCode).toBe(3);
+    expect(result.timedOut).toBe(false);
+  });
+
+  it.runIf(process.platform === "linux")("should report the peak memory of the command", async () => {
+    const result = await runProcess(node("const b=Buffer.alloc(64<<20,1);setTimeout(()=>b.length,300)"), "", 5000);
+
+    expect(result.peakMemoryKb).toBeGreaterThan(64 * 1024);
+  });
+
+  it("should kill the process on timeout", async () => {
+    const result = await runProcess(node("setTimeout(()=>{},10000)"), "", 300);
+
+    expect(result.timedOut).toBe(true);
+    expect(result.elapsedMs).toBeLessThan(5000);
+  });
+});
+
+describe("runInteractive", () => {
+  const judge = node(
+    "console.log(5);process.stdin.once('data',d=>{process.exitCode=d.toString().trim()==='10'?0:1;process.stdin.destroy()})",
+  );
+
+  it("should connect the solution and the judge and record the transcript", async () => {
+    const solution = node("process.stdin.once('data',d=>{console.log(d.toString().trim()*2);process.stdin.destroy()})");
+
+    const result = await runInteractive(solution, judge, 5000);
+
+    expect(result.judge.exitCode).toBe(0);
+    expect(result.solution.exitCode).toBe(0);
+    expect(result.transcript).toEqual(["judge> 5", "solution> 10"]);
+  });
+
+  it("should report the judge's exit code for a wrong answer", async () => {
+    const solution = node("process.stdin.once('data',()=>{console.log(7);process.stdin.destroy()})");
+
+    const result = await runInteractive(solution, judge, 5000);
+
+    expect(result.judge.exitCode).toBe(1);
+    expect(result.transcript).toEqual(["judge> 5", "solution> 7"]);
+  });
+
+  it("should kill both processes on timeout", async () => {
+    const result = await runInteractive(node("setTimeout(()=>{},10000)"), judge, 300);
+
+    expect(result.solution.timedOut).toBe(true);
+    expect(result.judge.timedOut).toBe(true);
+  });
+});
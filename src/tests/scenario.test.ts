@@ -1,9 +1,12 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import { fetchProblemContent } from "../generator/fetcher.js";
 import { generateParseResult } from "../generator/pipeline.js";
+import { ProblemCache, DEFAULT_PROBLEM_CACHE_TTL_HOURS, createProblemCache } from "../problem-cache.js";
+import { ConfigManager } from "../config.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,6 +19,9 @@ function readJson(filepath: string) {
 }
 
 describe("Scenario Tests: Expected Results", () => {
+  // Cached in the temporary directory rather than the user data directory
+  const problemCache = new ProblemCache(DEFAULT_PROBLEM_CACHE_TTL_HOURS, false);
+
   // Get all JSON files in the expected-results directory
   const files = fs.readdirSync(EXPECTED_RESULTS_DIR).filter((f) => f.endsWith(".json"));
 
@@ -31,11 +37,11 @@ describe("Scenario Tests: Expected Results", () => {
       expect(taskId).toBeDefined();
       expect(url).toBeDefined();
 
-      const html = await fetchProblemContent(taskId);
+      const html = await fetchProblemContent(taskId, problemCache);
       const result = generateParseResult(html, taskId, url);
       await new Promise((_) => setTimeout(_, 500));
 
-      // Remove formatTree, samples, judgeType and errorTolerance from result as they are not in the expected JSON
+      // Remove formatTree, samples, judgeType, errorTolerance and limits from result as they are not in the expected JSON
       const {
         formatTree: _formatTree,
         samples: _samples,
@@ -44,6 +50,12 @@ describe("Scenario Tests: Expected Results", () => {
         noStr: _noStr,
         mod: _mod,
         errorTolerance: _errorTolerance,
+        timeLimitMs: _timeLimitMs,
+        memoryLimitMb: _memoryLimitMb,
+        constraints: _constraints,
+        inputFormat: _inputFormat,
+        queryVariants: _queryVariants,
+        graph: _graph,
         ...actual
       } = result;
 
@@ -55,3 +67,46 @@ describe("Scenario Tests: Expected Results", () => {
     });
   });
 });
+
+// The checker's cache in the user data directory, which env-paths puts under XDG_DATA_HOME on Linux
+describe.skipIf(process.platform !== "linux")("Scenario Tests: problem cache", () => {
+  const html = fs.readFileSync(path.join(PROJECT_ROOT, "test-resources/single-case-example.html"), "utf-8");
+  const savedEnv = { XDG_DATA_HOME: process.env.XDG_DATA_HOME, XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME };
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "atcoder-gui-scenario-"));
+    process.env.XDG_DATA_HOME = path.join(workspace, "data");
+    process.env.XDG_CONFIG_HOME = path.join(workspace, "config");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(html)));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    // env-paths keeps a reference to process.env, so the variables are restored in place
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("should keep fetched problems in the user data directory for the next run", async () => {
+    const problemCache = createProblemCache(new ConfigManager(true))!;
+    expect(problemCache.dir.startsWith(path.join(workspace, "data"))).toBe(true);
+
+    expect(await fetchProblemContent("abc001_a", problemCache)).toBe(html);
+    expect(fs.readFileSync(path.join(problemCache.dir, "abc001_a.html"), "utf-8")).toBe(html);
+
+    // A later run reads the same directory instead of fetching again
+    const nextRun = createProblemCache(new ConfigManager(true))!;
+    expect(nextRun.dir).toBe(problemCache.dir);
+    expect(await fetchProblemContent("abc001_a", nextRun)).toBe(html);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
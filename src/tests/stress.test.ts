@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import { StressManager } from "../stress.js";
+import { TestManager } from "../test.js";
+import { ConfigManager } from "../config.js";
+import { BuildManager } from "../build.js";
+import { runProcess } from "../runner.js";
+import * as utils from "../utils.js";
+
+vi.mock("fs");
+vi.mock("../runner.js");
+vi.mock("../config.js");
+vi.mock("../build.js");
+vi.mock("../utils.js");
+
+describe("StressManager", () => {
+  let configManager: any;
+  let buildManager: any;
+  let stressManager: StressManager;
+
+  const ok = (stdout: string) => ({ stdout, stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+  const mockFiles = (files: string[]) => {
+    (fs.existsSync as any).mockImplementation((path: string) => path === "metadata.json" || files.includes(path));
+    (fs.readFileSync as any).mockReturnValue(JSON.stringify({ code_filename: "main.py", timeout_ms: 1000 }));
+  };
+
+  // Answer the generator, naive and solution commands; the solution is wrong when the input is "3"
+  const mockPrograms = () => {
+    (runProcess as any).mockImplementation(async (command: string, input: string) => {
+      if (command.startsWith("uv run gen.py")) return ok(`${command.split(" ").pop()}\n`);
+      if (command === "uv run naive.py") return ok(`${Number(input) * 2}\n`);
+      return ok(input.trim() === "3" ? "5\n" : `${Number(input) * 2}\n`);
+    });
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    configManager = new ConfigManager();
+    configManager.getConfig.mockReturnValue({});
+    buildManager = new BuildManager(configManager);
+    buildManager.run.mockResolvedValue(true);
+    stressManager = new StressManager(configManager, buildManager, new TestManager(configManager, buildManager));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should save the first counterexample as in_stress_N.txt", async () => {
+    mockFiles(["gen.py", "naive.py", "in_stress_1.txt"]);
+    mockPrograms();
+
+    expect(await stressManager.run(["stress"])).toBe(false);
+
+    expect(runProcess).toHaveBeenCalledWith("uv run gen.py 3", "", 10000);
+    expect(runProcess).not.toHaveBeenCalledWith("uv run gen.py 4", "", 10000);
+    expect(fs.writeFileSync).toHaveBeenCalledWith("in_stress_2.txt", "3\n");
+    expect(fs.writeFileSync).toHaveBeenCalledWith("out_stress_2.txt", "6\n");
+    expect(console.log).toHaveBeenCalledWith("# Seed 3 ... \x1b[31mWA\x1b[0m");
+  });
+
+  it("should report success when no counterexample is found", async () => {
+    mockFiles(["gen.py", "naive.py"]);
+    mockPrograms();
+
+    expect(await stressManager.run(["stress", "--count", "2"])).toBe(true);
+
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(utils.logSuccess).toHaveBeenCalledWith("No counterexample found in 2 cases.");
+  });
+
+  it("should build a C++ brute force with the configured build command", async () => {
+    mockFiles(["gen.py", "brute.cpp"]);
+    (runProcess as any).mockResolvedValue(ok("1\n"));
+
+    await stressManager.run(["stress", "--naive", "brute.cpp", "--count", "1"]);
+
+    expect(runProcess).toHaveBeenCalledWith("g++ -O3 -std=c++23 -DNDEBUG brute.cpp -o brute", "");
+    expect(runProcess).toHaveBeenCalledWith(expect.stringMatching(/brute$/), "1\n", 10000);
+  });
+
+  it("should test the code file given by --lang against a brute force in another language", async () => {
+    mockFiles(["gen.py", "naive.rs"]);
+    (fs.readFileSync as any).mockReturnValue(
+      JSON.stringify({ code_filename: "main.cpp", code_filenames: ["main.cpp", "main.py"], timeout_ms: 1000 }),
+    );
+    (runProcess as any).mockResolvedValue(ok("1\n"));
+
+    expect(await stressManager.run(["stress", "--lang", "py", "--count", "1"])).toBe(true);
+
+    expect(runProcess).toHaveBeenCalledWith("rustc -O --edition 2021 naive.rs -o naive", "");
+    expect(runProcess).toHaveBeenCalledWith("./naive", "1\n", 10000);
+    expect(runProcess).toHaveBeenCalledWith("uv run main.py", "1\n", 1000);
+  });
+
+  it("should not build a brute force with a build command written only for main.cpp", async () => {
+    mockFiles(["gen.py", "naive.cpp"]);
+    configManager.getConfig.mockReturnValue({ buildCommand: { cpp: "g++ -O2 main.cpp -o main" } });
+
+    expect(await stressManager.run(["stress"])).toBe(false);
+
+    expect(utils.logError).toHaveBeenCalledWith(expect.stringContaining("cannot build naive.cpp"));
+    expect(runProcess).not.toHaveBeenCalled();
+  });
+
+  it("should stop when the input generator times out", async () => {
+    mockFiles(["gen.py", "naive.py"]);
+    vi.mocked(runProcess).mockResolvedValue({ ...ok(""), exitCode: null, timedOut: true });
+
+    expect(await stressManager.run(["stress"])).toBe(false);
+
+    expect(utils.logError).toHaveBeenCalledWith("Input generator timed out after 10s on seed 1");
+    expect(runProcess).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop when the brute force is missing", async () => {
+    mockFiles(["gen.py"]);
+
+    expect(await stressManager.run(["stress"])).toBe(false);
+
+    expect(utils.logError).toHaveBeenCalledWith(expect.stringContaining("Brute force solution not found"));
+    expect(runProcess).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  config: {} as Record<string, unknown>,
+  submitSolution: vi.fn(),
+  runTests: vi.fn(),
+}));
+
+vi.mock("../browser.js", () => ({
+  BrowserManager: class {},
+}));
+
+vi.mock("../config.js", () => ({
+  ConfigManager: class {
+    getConfig = vi.fn(() => mocks.config);
+  },
+}));
+
+vi.mock("../submit.js", () => ({
+  SubmitManager: class {
+    submitSolution = mocks.submitSolution;
+  },
+}));
+
+vi.mock("../test.js", () => ({
+  TestManager: class {
+    run = mocks.runTests;
+  },
+}));
+
+vi.mock("../cookie-export.js", () => ({
+  CookieExporter: class {},
+}));
+
+vi.mock("../gen.js", () => ({
+  GenManager: class {},
+}));
+
+vi.mock("../problem.js", () => ({
+  ProblemManager: class {
+    navigateToProblem = vi.fn().mockResolvedValue(false);
+  },
+}));
+
+import { AtCoderGUI } from "../main.js";
+
+describe("submit with submitGuard", () => {
+  let gui: AtCoderGUI;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocks.submitSolution.mockResolvedValue(true);
+    gui = new AtCoderGUI();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should run tests before submitting and block on failure", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.cpp", passed: 0, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit");
+
+    expect(mocks.runTests).toHaveBeenCalledTimes(1);
+    expect(mocks.submitSolution).not.toHaveBeenCalled();
+  });
+
+  it("should submit once when all samples pass", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.cpp", passed: 1, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit");
+
+    expect(mocks.submitSolution).toHaveBeenCalledWith(undefined, false, undefined);
+    expect(mocks.runTests).toHaveBeenCalledTimes(1);
+  });
+
+  it("should submit a failing solution with --force", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.cpp", passed: 0, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit --force main.cpp");
+
+    expect(mocks.submitSolution).toHaveBeenCalledWith("main.cpp", false, undefined);
+  });
+
+  it("should paste first and test afterwards without submitGuard", async () => {
+    mocks.config = {};
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.cpp", passed: 0, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit");
+
+    expect(mocks.submitSolution).toHaveBeenCalledWith(undefined, false, undefined);
+    expect(mocks.runTests).toHaveBeenCalledTimes(1);
+    expect(mocks.submitSolution.mock.invocationCallOrder[0]).toBeLessThan(mocks.runTests.mock.invocationCallOrder[0]);
+  });
+
+  it("should test and submit the code file of the language given by --lang", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.py", passed: 1, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit --lang python");
+
+    expect(mocks.runTests).toHaveBeenCalledWith(["test", "--lang", "python"]);
+    expect(mocks.submitSolution).toHaveBeenCalledWith(undefined, false, "python");
+  });
+
+  it("should test the file given on the command line", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "sub.py", passed: 1, total: 1, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit sub.py");
+
+    expect(mocks.runTests).toHaveBeenCalledWith(["test", "--file", "sub.py"]);
+    expect(mocks.submitSolution).toHaveBeenCalledWith("sub.py", false, undefined);
+  });
+
+  it("should block the submission when no sample was tested", async () => {
+    mocks.config = { submitGuard: true };
+    mocks.runTests.mockResolvedValue({ codeFilename: "main.cpp", passed: 0, total: 0, cases: [] });
+
+    //@ts-expect-error This is expected behavior for testing purposes.
+    await gui.handleCommand("submit");
+
+    expect(mocks.submitSolution).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import { SubmitManager } from "../submit.js";
+import { BrowserManager } from "../browser.js";
+import { ConfigManager } from "../config.js";
+
+vi.mock("fs");
+vi.mock("../browser.js");
+vi.mock("../config.js");
+vi.mock("../utils.js");
+
+describe("SubmitManager language selection", () => {
+  let browserManager: any;
+  let configManager: any;
+  let page: any;
+  let submitManager: SubmitManager;
+
+  const mockMetadata = (metadata: object) => {
+    vi.mocked(fs.existsSync).mockImplementation((p: fs.PathLike) => String(p) !== "../contest.acc.json");
+    vi.mocked(fs.readFileSync).mockImplementation(((p: fs.PathOrFileDescriptor) =>
+      String(p) === "./metadata.json" ? JSON.stringify(metadata) : "int main() {}") as any);
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    page = {
+      waitForLoadState: vi.fn().mockResolvedValue(undefined),
+      waitForSelector: vi.fn().mockResolvedValue(undefined),
+      addStyleTag: vi.fn().mockResolvedValue(undefined),
+      fill: vi.fn().mockResolvedValue(undefined),
+      evaluate: vi.fn().mockResolvedValue("Python (PyPy 3.11-v7.3.20)"),
+    };
+    browserManager = new BrowserManager();
+    browserManager.getCurrentPage.mockReturnValue(page);
+    browserManager.openUrl.mockResolvedValue(undefined);
+    configManager = new ConfigManager();
+    configManager.getConfig.mockReturnValue({
+      submitLanguage: { cpp: "C++ 23 (GCC", python: "Python (PyPy" },
+    });
+    submitManager = new SubmitManager(browserManager, configManager);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should select the language configured for metadata.json lang", async () => {
+    mockMetadata({
+      code_filename: "main.py",
+      lang: "python",
+      problem: { contest: { contest_id: "abc400" }, problem_id: "abc400_a" },
+    });
+
+    expect(await submitManager.submitSolution(undefined)).toBe(true);
+
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), "Python (PyPy");
+    expect(page.fill).toHaveBeenCalled();
+  });
+
+  it("should use the file extension when a filename is given", async () => {
+    mockMetadata({
+      code_filename: "main.py",
+      lang: "python",
+      problem: { contest: { contest_id: "abc400" }, problem_id: "abc400_a" },
+    });
+
+    await submitManager.submitSolution("main.cpp");
+
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), "C++ 23 (GCC");
+  });
+
+  it("should not paste the code when the language is not on the page", async () => {
+    mockMetadata({
+      code_filename: "main.cpp",
+      lang: "cpp",
+      problem: { contest: { contest_id: "abc400" }, problem_id: "abc400_a" },
+    });
+    page.evaluate.mockResolvedValue(null);
+
+    expect(await submitManager.submitSolution(undefined)).toBe(false);
+    expect(page.fill).not.toHaveBeenCalled();
+  });
+});
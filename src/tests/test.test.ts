@@ -3,11 +3,11 @@ import { TestManager } from "../test.js";
 import { ConfigManager } from "../config.js";
 import { BuildManager } from "../build.js";
 import * as fs from "fs";
-import { execSync } from "child_process";
+import { runProcess, runInteractive } from "../runner.js";
 import * as utils from "../utils.js";
 
 vi.mock("fs");
-vi.mock("child_process");
+vi.mock("../runner.js");
 vi.mock("../config.js");
 vi.mock("../build.js");
 vi.mock("../utils.js");
@@ -58,21 +58,12 @@ describe("TestManager timeout handling", () => {
     // Mock buildManager.run to return true
     (buildManager.run as any).mockResolvedValue(true);
 
-    // Mock execSync to throw a timeout error
-    const timeoutError = new Error("Command failed: ./main");
-    (timeoutError as any).code = "ETIMEDOUT";
-    (execSync as any).mockImplementation(() => {
-      throw timeoutError;
-    });
+    // Mock runProcess to report a timeout
+    (runProcess as any).mockResolvedValue({ stdout: "", stderr: "", exitCode: null, timedOut: true, elapsedMs: 1000 });
 
     await testManager.run([]);
 
-    expect(execSync).toHaveBeenCalledWith(
-      expect.stringMatching(/\.?\/?main/),
-      expect.objectContaining({
-        timeout: 1000,
-      }),
-    );
+    expect(runProcess).toHaveBeenCalledWith(expect.stringMatching(/\.?\/?main/), "input", 1000);
     // \x1b[33m is yellow (TLE)
     expect(console.log).toHaveBeenCalledWith(expect.stringContaining("# in_1.txt ... \x1b[33mTLE\x1b[0m"));
     expect(utils.logError).toHaveBeenCalledWith("Some cases FAILED (passed 0 of 1)");
@@ -104,12 +95,12 @@ describe("TestManager timeout handling", () => {
     // Mock buildManager.run to return true
     (buildManager.run as any).mockResolvedValue(true);
 
-    // Mock execSync to return incorrect output
-    (execSync as any).mockReturnValue("2");
+    // Mock runProcess to return incorrect output
+    (runProcess as any).mockResolvedValue({ stdout: "2\n", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
 
     await testManager.run([]);
 
-    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[31mWA\x1b[0m");
+    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[31mWA\x1b[0m \x1b[90m5 ms\x1b[0m");
     expect(console.log).toHaveBeenCalledWith("\x1b[95m[Input]\x1b[0m");
     expect(console.log).toHaveBeenCalledWith("100");
     expect(console.log).toHaveBeenCalledWith("\x1b[95m[Expected]\x1b[0m");
@@ -145,15 +136,288 @@ describe("TestManager timeout handling", () => {
     // Mock buildManager.run to return true
     (buildManager.run as any).mockResolvedValue(true);
 
-    // Mock execSync to return correct output
-    (execSync as any).mockReturnValue("1");
+    // Mock runProcess to return correct output
+    (runProcess as any).mockResolvedValue({ stdout: "1\n", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
 
     await testManager.run([]);
 
-    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[32mPASSED\x1b[0m");
+    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[32mPASSED\x1b[0m \x1b[90m5 ms\x1b[0m");
     expect(utils.logSuccess).toHaveBeenCalledWith("Passed all test cases!!!");
   });
 
+  it("should show peak memory and warn when close to the limits", async () => {
+    const metadata = {
+      code_filename: "main.cpp",
+      timeout_ms: 1000,
+      memory_limit_mb: 4,
+    };
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "out_1.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      if (path === "out_1.txt") return "1\n";
+      return "";
+    });
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any).mockResolvedValue({
+      stdout: "1\n",
+      stderr: "",
+      exitCode: 0,
+      timedOut: false,
+      elapsedMs: 900,
+      peakMemoryKb: 3584,
+    });
+
+    const report = await testManager.run([]);
+
+    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[32mPASSED\x1b[0m \x1b[90m900 ms / 3584 KB\x1b[0m");
+    expect(report?.cases[0].warnings).toEqual([
+      "900 ms is 90% of the time limit (1000 ms)",
+      "3584 KB is 88% of the memory limit (4 MB)",
+    ]);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Warning: 900 ms is 90% of the time limit"));
+  });
+
+  it("should run cases concurrently with --jobs and keep the output order", async () => {
+    const metadata = { code_filename: "main.cpp", timeout_ms: 1000 };
+    const files = ["in_1.txt", "out_1.txt", "in_2.txt", "out_2.txt", "in_3.txt", "out_3.txt"];
+
+    (fs.existsSync as any).mockImplementation((path: string) => path === "metadata.json" || files.includes(path));
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      return path.replace(/^(in|out)_/, "").replace(".txt", "");
+    });
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", ...files]);
+    (buildManager.run as any).mockResolvedValue(true);
+
+    // Later cases finish first; at most two processes may run at the same time
+    let running = 0;
+    let maxRunning = 0;
+    (runProcess as any).mockImplementation(async (_command: string, input: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 30 - Number(input) * 10));
+      running--;
+      return { stdout: input, stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 };
+    });
+
+    const report = await testManager.run(["test", "--jobs", "2"]);
+
+    expect(maxRunning).toBe(2);
+    expect(report?.cases.map((c) => c.inputFile)).toEqual(["in_1.txt", "in_2.txt", "in_3.txt"]);
+    const verdictLines = (console.log as any).mock.calls
+      .map((call: unknown[]) => call[0])
+      .filter((line: string) => line.startsWith("# "));
+    expect(verdictLines).toEqual([
+      expect.stringContaining("in_1.txt"),
+      expect.stringContaining("in_2.txt"),
+      expect.stringContaining("in_3.txt"),
+    ]);
+  });
+
+  it("should send the logs and the build output to stderr while printing a JSON report", async () => {
+    const metadata = { code_filename: "main.cpp", timeout_ms: 1000 };
+    const restoreLog = vi.fn();
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "out_1.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) =>
+      path === "metadata.json" ? JSON.stringify(metadata) : "1",
+    );
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (utils.redirectLogToStderr as any).mockReturnValue(restoreLog);
+    (runProcess as any).mockResolvedValue({ stdout: "1", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+    await testManager.run(["test", "--report", "json"]);
+
+    expect(buildManager.run).toHaveBeenCalledWith(["test", "--report", "json"], true);
+    expect(restoreLog).toHaveBeenCalled();
+    // The report is printed only after the logs are restored to stdout
+    expect(restoreLog.mock.invocationCallOrder[0]).toBeLessThan((console.log as any).mock.invocationCallOrder.at(-1));
+    expect(JSON.parse((console.log as any).mock.calls.at(-1)[0]).passed).toBe(1);
+  });
+
+  it("should reject an invalid --jobs value", async () => {
+    const report = await testManager.run(["test", "-j", "0"]);
+
+    expect(report).toBeUndefined();
+    expect(utils.logError).toHaveBeenCalledWith("Invalid number of jobs: 0");
+    expect(runProcess).not.toHaveBeenCalled();
+  });
+
+  it("should run interactive problems against the judge program", async () => {
+    const metadata = {
+      code_filename: "main.cpp",
+      timeout_ms: 1000,
+      judge: { judge_type: "interactive" },
+      judge_program: "python3 judge.py",
+    };
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "in_2.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) =>
+      path === "metadata.json" ? JSON.stringify(metadata) : "secret",
+    );
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "in_2.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+
+    const processResult = { stdout: "", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 };
+    (runInteractive as any)
+      .mockResolvedValueOnce({
+        solution: processResult,
+        judge: processResult,
+        transcript: ["judge> 5", "solution> 10"],
+      })
+      .mockResolvedValueOnce({
+        solution: processResult,
+        judge: { ...processResult, exitCode: 1, stderr: "wrong guess" },
+        transcript: ["judge> 5", "solution> 7"],
+      });
+
+    const report = await testManager.run([]);
+
+    expect(runInteractive).toHaveBeenCalledWith(expect.stringMatching(/main/), "python3 judge.py in_1.txt", 1000);
+    expect(runProcess).not.toHaveBeenCalled();
+    expect(report?.cases.map((c) => c.verdict)).toEqual(["AC", "WA"]);
+    expect(console.log).toHaveBeenCalledWith("judge> 5\nsolution> 7");
+    expect(console.log).toHaveBeenCalledWith("wrong guess");
+  });
+
+  it("should require judge_program for interactive problems", async () => {
+    const metadata = { code_filename: "main.cpp", timeout_ms: 1000, judge: { judge_type: "interactive" } };
+
+    (fs.existsSync as any).mockImplementation((path: string) => path === "metadata.json");
+    (fs.readFileSync as any).mockReturnValue(JSON.stringify(metadata));
+    (buildManager.run as any).mockResolvedValue(true);
+
+    expect(await testManager.run([])).toBeUndefined();
+    expect(utils.logError).toHaveBeenCalledWith(expect.stringContaining("judge_program is not set"));
+  });
+
+  it("should judge the output with the checker when one is set", async () => {
+    const metadata = {
+      code_filename: "main.cpp",
+      timeout_ms: 1000,
+      judge: { judge_type: "multisolution" },
+      checker: "python3 checker.py",
+    };
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "out_1.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      if (path === "out_1.txt") return "1 2\n";
+      return "3\n";
+    });
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any)
+      .mockResolvedValueOnce({ stdout: "2 1\n", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 })
+      .mockResolvedValueOnce({ stdout: "", stderr: "ok", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+    const report = await testManager.run([]);
+
+    expect(runProcess).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^python3 checker\.py "in_1\.txt" ".+out_1\.txt" "out_1\.txt"$/),
+      "",
+      expect.any(Number),
+    );
+    expect(fs.writeFileSync).toHaveBeenCalledWith(expect.stringContaining("out_1.txt"), "2 1\n");
+    expect(fs.rmSync).toHaveBeenCalled();
+    expect(report?.cases[0].verdict).toBe("AC");
+  });
+
+  it("should show the checker message when the checker rejects the output", async () => {
+    const metadata = { code_filename: "main.cpp", timeout_ms: 1000, checker: "./checker" };
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "out_1.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) =>
+      path === "metadata.json" ? JSON.stringify(metadata) : "1\n",
+    );
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any)
+      .mockResolvedValueOnce({ stdout: "1\n", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 })
+      .mockResolvedValueOnce({
+        stdout: "",
+        stderr: "wrong answer: not a path\n",
+        exitCode: 1,
+        timedOut: false,
+        elapsedMs: 5,
+      });
+
+    const report = await testManager.run([]);
+
+    expect(report?.cases[0].verdict).toBe("WA");
+    expect(report?.cases[0].diff).toBeUndefined();
+    expect(console.log).toHaveBeenCalledWith("wrong answer: not a path");
+  });
+
+  it("should report which case inside a multi-testcase sample failed", async () => {
+    const metadata = {
+      code_filename: "main.cpp",
+      timeout_ms: 1000,
+      sample_cases: { "1": { input_lines: [2, 2, 2], output_lines: [1, 1, 1] } },
+    };
+
+    (fs.existsSync as any).mockImplementation((path: string) =>
+      ["metadata.json", "in_1.txt", "out_1.txt"].includes(path),
+    );
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      if (path === "in_1.txt") return "3\n1\n5\n2\n3 4\n1\n7\n";
+      return "5\n7\n7\n";
+    });
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any).mockResolvedValue({
+      stdout: "5\n12\n7\n",
+      stderr: "",
+      exitCode: 0,
+      timedOut: false,
+      elapsedMs: 5,
+    });
+
+    const report = await testManager.run([]);
+
+    expect(report?.cases[0].caseCount).toBe(3);
+    expect(report?.cases[0].failedCases).toEqual([{ index: 2, input: "2\n3 4", expected: "7", stdout: "12" }]);
+    expect(console.log).toHaveBeenCalledWith("# in_1.txt ... \x1b[31mWA\x1b[0m (case 2 of 3) \x1b[90m5 ms\x1b[0m");
+    expect(console.log).toHaveBeenCalledWith("\x1b[95m[Input of case 2]\x1b[0m");
+    expect(console.log).toHaveBeenCalledWith("2\n3 4");
+  });
+
+  it("should time a synthesized max case without comparing the output", async () => {
+    const metadata = { code_filename: "main.cpp", timeout_ms: 1000, checker: "./checker" };
+    const inputGenManager = { synthesize: vi.fn().mockResolvedValue(["200000\n"]) };
+    testManager = new TestManager(configManager, buildManager, inputGenManager as any);
+
+    (fs.existsSync as any).mockImplementation((path: string) => path === "metadata.json");
+    (fs.readFileSync as any).mockReturnValue(JSON.stringify(metadata));
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any).mockResolvedValue({ stdout: "42\n", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 950 });
+
+    const report = await testManager.run(["test", "--maxcase"]);
+
+    expect(inputGenManager.synthesize).toHaveBeenCalledWith("max", 1);
+    expect(fs.writeFileSync).toHaveBeenCalledWith("maxcase.txt", "200000\n");
+    expect(fs.readdirSync).not.toHaveBeenCalled();
+    expect(runProcess).toHaveBeenCalledTimes(1);
+    expect(runProcess).toHaveBeenCalledWith(expect.stringMatching(/main/), "200000\n", 1000);
+    expect(report?.cases[0].verdict).toBe("AC");
+    expect(report?.cases[0].warnings).toEqual(["950 ms is 95% of the time limit (1000 ms)"]);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("# maxcase.txt ... \x1b[32mFINISHED\x1b[0m"));
+  });
+
   it("should not run tests if build fails", async () => {
     (fs.existsSync as any).mockImplementation((path: string) => {
       if (path === "metadata.json") return true;
@@ -167,7 +431,7 @@ describe("TestManager timeout handling", () => {
 
     // Should not have called fs.readdirSync to look for test cases
     expect(fs.readdirSync).not.toHaveBeenCalled();
-    // Should not have called execSync
-    expect(execSync).not.toHaveBeenCalled();
+    // Should not have called runProcess
+    expect(runProcess).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { TestReport, diffLines, isAllPassed, renderJsonReport, renderJUnitReport } from "../test-report.js";
+
+const report: TestReport = {
+  problemId: "abc400_a",
+  codeFilename: "main.cpp",
+  passed: 1,
+  total: 3,
+  cases: [
+    {
+      id: "1",
+      inputFile: "in_1.txt",
+      verdict: "AC",
+      elapsedMs: 12,
+      input: "1\n",
+      expected: "1",
+      stdout: "1",
+      stderr: "",
+    },
+    {
+      id: "2",
+      inputFile: "in_2.txt",
+      verdict: "WA",
+      elapsedMs: 8,
+      input: "2\n",
+      expected: "a < b",
+      stdout: "a > b",
+      stderr: "",
+      diff: "@@ line 1 @@\n-a < b\n+a > b",
+    },
+    {
+      id: "3",
+      inputFile: "in_3.txt",
+      verdict: "RE",
+      elapsedMs: 3,
+      input: "3\n",
+      expected: "3",
+      stdout: "",
+      stderr: "Segmentation fault",
+    },
+  ],
+};
+
+describe("diffLines", () => {
+  it("should list only differing lines", () => {
+    expect(diffLines("1\n2\n3", "1\n5\n3")).toBe("@@ line 2 @@\n-2\n+5");
+  });
+
+  it("should show missing lines", () => {
+    expect(diffLines("1\n2", "1")).toBe("@@ line 2 @@\n-2");
+  });
+
+  it("should ignore trailing spaces", () => {
+    expect(diffLines("1 2", "1 2 ")).toBe("");
+  });
+});
+
+describe("isAllPassed", () => {
+  it("should be false for a missing report or failed cases", () => {
+    expect(isAllPassed(undefined)).toBe(false);
+    expect(isAllPassed(report)).toBe(false);
+    expect(isAllPassed({ ...report, passed: 3 })).toBe(true);
+  });
+
+  it("should be false for a report without cases", () => {
+    expect(isAllPassed({ ...report, passed: 0, total: 0, cases: [] })).toBe(false);
+  });
+});
+
+describe("renderJsonReport", () => {
+  it("should round-trip the report", () => {
+    expect(JSON.parse(renderJsonReport(report))).toEqual(report);
+  });
+});
+
+describe("renderJUnitReport", () => {
+  it("should map WA to failure and RE to error", () => {
+    const xml = renderJUnitReport(report);
+
+    expect(xml).toContain('<testsuite name="abc400_a" tests="3" failures="1" errors="1" time="0.023">');
+    expect(xml).toContain('<testcase name="in_1.txt" classname="abc400_a" time="0.012"/>');
+    expect(xml).toContain('<failure type="WA" message="WA">@@ line 1 @@\n-a &lt; b\n+a &gt; b</failure>');
+    expect(xml).toContain('<error type="RE" message="RE">Segmentation fault</error>');
+  });
+});
@@ -3,10 +3,10 @@ import { TestManager } from "../test.js";
 import { ConfigManager } from "../config.js";
 import { BuildManager } from "../build.js";
 import * as fs from "fs";
-import { execSync } from "child_process";
+import { runProcess } from "../runner.js";
 
 vi.mock("fs");
-vi.mock("child_process");
+vi.mock("../runner.js");
 vi.mock("../config.js");
 vi.mock("../build.js");
 vi.mock("../utils.js");
@@ -46,16 +46,13 @@ describe("TestManager with runCommand", () => {
     });
     (fs.readdirSync as any).mockReturnValue(["solution.py", "metadata.json", "in_1.txt", "out_1.txt"]);
     (buildManager.run as any).mockResolvedValue(true);
-    (execSync as any).mockReturnValue("output");
+    (runProcess as any).mockResolvedValue({ stdout: "output", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
 
-    (configManager.get as any).mockImplementation((key: string) => {
-      if (key === "runCommand") return { python: "python3 main.py" };
-      return undefined;
-    });
+    (configManager.getConfig as any).mockReturnValue({ runCommand: { python: "python3 main.py" } });
 
     await testManager.run([]);
 
-    expect(execSync).toHaveBeenCalledWith("python3 solution.py", expect.any(Object));
+    expect(runProcess).toHaveBeenCalledWith("python3 solution.py", "input", 1000);
   });
 
   it("should use runCommand.cpp from config", async () => {
@@ -73,16 +70,13 @@ describe("TestManager with runCommand", () => {
     });
     (fs.readdirSync as any).mockReturnValue(["main.cpp", "metadata.json", "in_1.txt", "out_1.txt"]);
     (buildManager.run as any).mockResolvedValue(true);
-    (execSync as any).mockReturnValue("output");
+    (runProcess as any).mockResolvedValue({ stdout: "output", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
 
-    (configManager.get as any).mockImplementation((key: string) => {
-      if (key === "runCommand") return { cpp: "./custom_bin" };
-      return undefined;
-    });
+    (configManager.getConfig as any).mockReturnValue({ runCommand: { cpp: "./custom_bin" } });
 
     await testManager.run([]);
 
-    expect(execSync).toHaveBeenCalledWith("./custom_bin", expect.any(Object));
+    expect(runProcess).toHaveBeenCalledWith("./custom_bin", "input", 1000);
   });
 
   it("should fall back to default when runCommand is not in config", async () => {
@@ -100,14 +94,62 @@ describe("TestManager with runCommand", () => {
     });
     (fs.readdirSync as any).mockReturnValue(["main.py", "metadata.json", "in_1.txt", "out_1.txt"]);
     (buildManager.run as any).mockResolvedValue(true);
-    (execSync as any).mockReturnValue("output");
+    (runProcess as any).mockResolvedValue({ stdout: "output", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+    (configManager.getConfig as any).mockReturnValue({});
+
+    await testManager.run([]);
 
-    (configManager.get as any).mockImplementation((_: string) => {
-      return undefined;
+    expect(runProcess).toHaveBeenCalledWith("uv run main.py", "input", 1000);
+  });
+
+  it("should fall back to the default run command of C#", async () => {
+    const metadata = {
+      code_filename: "Main.cs",
+      timeout_ms: 1000,
+    };
+
+    (fs.existsSync as any).mockImplementation((_: string) => true);
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      if (path === "in_1.txt") return "input";
+      if (path === "out_1.txt") return "output";
+      return "";
     });
+    (fs.readdirSync as any).mockReturnValue(["Main.cs", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any).mockResolvedValue({ stdout: "output", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+    (configManager.getConfig as any).mockReturnValue({});
 
     await testManager.run([]);
 
-    expect(execSync).toHaveBeenCalledWith("python3 main.py", expect.any(Object));
+    expect(runProcess).toHaveBeenCalledWith("dotnet bin/Main.dll", "input", 1000);
+  });
+
+  it("should run the code file of the language given by --lang", async () => {
+    const metadata = {
+      code_filename: "main.cpp",
+      code_filenames: ["main.cpp", "main.py"],
+      timeout_ms: 1000,
+    };
+
+    (fs.existsSync as any).mockImplementation((_: string) => true);
+    (fs.readFileSync as any).mockImplementation((path: string) => {
+      if (path === "metadata.json") return JSON.stringify(metadata);
+      if (path === "in_1.txt") return "input";
+      if (path === "out_1.txt") return "output";
+      return "";
+    });
+    (fs.readdirSync as any).mockReturnValue(["main.cpp", "main.py", "metadata.json", "in_1.txt", "out_1.txt"]);
+    (buildManager.run as any).mockResolvedValue(true);
+    (runProcess as any).mockResolvedValue({ stdout: "output", stderr: "", exitCode: 0, timedOut: false, elapsedMs: 5 });
+
+    (configManager.getConfig as any).mockReturnValue({});
+
+    await testManager.run(["test", "--lang", "py"]);
+
+    expect(buildManager.run).toHaveBeenCalledWith(["test", "--lang", "py"], false);
+    expect(runProcess).toHaveBeenCalledWith("uv run main.py", "input", 1000);
   });
 });
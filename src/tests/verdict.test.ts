@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { parseSubmissionList, parseTestCaseVerdicts, isFinalStatus, findNewSubmission } from "../verdict.js";
+
+const submissionRow = (id: string, taskId: string, status: string, extra: string = ""): string => `
+  <tr>
+    <td class="no-break"><time class="fixtime fixtime-second">2026-04-01 21:05:00+0900</time></td>
+    <td><a href="/contests/abc400/tasks/${taskId}">A - Problem</a></td>
+    <td><a href="/users/someone">someone</a></td>
+    <td><a href="/contests/abc400/submissions/me?f.Language=6017">C++ 23</a></td>
+    <td class="text-right submission-score" data-id="${id}">0</td>
+    <td class="text-right">512 Byte</td>
+    <td class="text-center"><span class="label label-default">${status}</span></td>
+    ${extra}
+    <td class="text-center"><a href="/contests/abc400/submissions/${id}">Detail</a></td>
+  </tr>`;
+
+describe("parseSubmissionList", () => {
+  it("should extract id, task and status of each row", () => {
+    const html = `<table><tbody>
+      ${submissionRow("1002", "abc400_b", "3/10")}
+      ${submissionRow("1001", "abc400_a", "AC", '<td class="text-right">12 ms</td><td class="text-right">3580 KiB</td>')}
+    </tbody></table>`;
+
+    const rows = parseSubmissionList(html);
+
+    expect(rows).toEqual([
+      { id: "1002", taskId: "abc400_b", status: "3/10", execTime: undefined, memory: undefined },
+      { id: "1001", taskId: "abc400_a", status: "AC", execTime: "12 ms", memory: "3580 KiB" },
+    ]);
+  });
+
+  it("should return an empty list when there are no submissions", () => {
+    expect(parseSubmissionList("<table><tbody></tbody></table>")).toEqual([]);
+  });
+});
+
+describe("findNewSubmission", () => {
+  const rows = [
+    { id: "1002", taskId: "abc400_b", status: "WJ" },
+    { id: "1001", taskId: "abc400_a", status: "AC" },
+    { id: "998", taskId: "abc400_a", status: "WA" },
+  ];
+
+  it("should return the submission for the task newer than the previous one", () => {
+    expect(findNewSubmission(rows, "abc400_a", "998")?.id).toBe("1001");
+    expect(findNewSubmission(rows, "abc400_a", "0")?.id).toBe("1001");
+  });
+
+  it("should not mistake older submissions for one that is not listed yet", () => {
+    expect(findNewSubmission(rows, "abc400_a", "1001")).toBeUndefined();
+    expect(findNewSubmission(rows, "abc400_b", "1002")).toBeUndefined();
+  });
+});
+
+describe("parseTestCaseVerdicts", () => {
+  it("should extract per-testcase results and ignore other tables", () => {
+    const html = `
+      <table><tbody><tr><td>Score</td><td>0 / 100</td><td><span class="label">AC</span> × 2</td></tr></tbody></table>
+      <table><tbody>
+        <tr><td>sample_01.txt</td><td><span class="label label-success">AC</span></td><td>1 ms</td><td>3484 KiB</td></tr>
+        <tr><td>random_01.txt</td><td><span class="label label-warning">WA</span></td><td>5 ms</td><td>3600 KiB</td></tr>
+      </tbody></table>`;
+
+    expect(parseTestCaseVerdicts(html)).toEqual([
+      { name: "sample_01.txt", status: "AC", execTime: "1 ms", memory: "3484 KiB" },
+      { name: "random_01.txt", status: "WA", execTime: "5 ms", memory: "3600 KiB" },
+    ]);
+  });
+});
+
+describe("isFinalStatus", () => {
+  it("should treat waiting and in-progress labels as pending", () => {
+    expect(isFinalStatus("WJ")).toBe(false);
+    expect(isFinalStatus("WR")).toBe(false);
+    expect(isFinalStatus("3/10")).toBe(false);
+    expect(isFinalStatus("3/10 WA")).toBe(false);
+  });
+
+  it("should treat judge verdicts as final", () => {
+    for (const status of ["AC", "WA", "TLE", "RE", "CE", "MLE"]) {
+      expect(isFinalStatus(status)).toBe(true);
+    }
+  });
+});
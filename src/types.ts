@@ -2,6 +2,8 @@
  * Type definitions for atcoder-cli and atcoder-tools configuration files
  */
 
+import { Constraints } from "./analyzer/constraints.js";
+
 // atcoder-cli contest.acc.json format
 export interface AtCoderCliContestConfig {
   contest: {
@@ -27,6 +29,7 @@ export interface AtCoderCliTask {
 // atcoder-tools metadata.json format
 export interface AtCoderToolsMetadata {
   code_filename: string;
+  code_filenames?: string[]; // All code files generated by `gen --lang a,b`; code_filename is the first one
   judge: {
     judge_type: string;
     error_type?: string;
@@ -44,4 +47,15 @@ export interface AtCoderToolsMetadata {
   sample_in_pattern: string;
   sample_out_pattern: string;
   timeout_ms: number;
+  memory_limit_mb?: number;
+  judge_program?: string; // Command of the local judge for interactive problems
+  checker?: string; // Command of a testlib-style checker (`checker input output answer`)
+  constraints?: Constraints; // Bounds of the variables parsed from the Constraints section
+  sample_cases?: Record<string, SampleCaseLines>; // Cases of the multi-testcase samples, keyed by the ID of in_<id>.txt
+}
+
+// Number of lines of each case in a sample of a multi-testcase problem (the input excludes the first line "T")
+export interface SampleCaseLines {
+  input_lines: number[];
+  output_lines: number[];
 }
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "vitest";
-import { formatLWPDate, expandHomeDir, compactHomeDir, getSourceFilename } from "./utils.js";
+import { formatLWPDate, expandHomeDir, compactHomeDir } from "./utils.js";
 import os from "os";
 import path from "path";
 
@@ -163,25 +163,3 @@ describe("formatLWPDate", () => {
     });
   });
 });
-
-describe("getSourceFilename", () => {
-  test("should return main.cpp for cpp", () => {
-    expect(getSourceFilename("cpp")).toBe("main.cpp");
-  });
-
-  test("should return main.py for python", () => {
-    expect(getSourceFilename("python")).toBe("main.py");
-  });
-
-  test("should return main.py for py", () => {
-    expect(getSourceFilename("py")).toBe("main.py");
-  });
-
-  test("should return main.cpp for unknown languages", () => {
-    expect(getSourceFilename("rust")).toBe("main.cpp");
-  });
-
-  test("should return main.cpp for default", () => {
-    expect(getSourceFilename("")).toBe("main.cpp");
-  });
-});
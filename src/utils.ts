@@ -77,6 +77,18 @@ export function logError(message: string, error?: unknown): void {
   }
 }
 
+/**
+ * Send console.log output to stderr until the returned function is called, so that stdout only carries
+ * machine-readable output
+ */
+export function redirectLogToStderr(): () => void {
+  const log = console.log;
+  console.log = console.error;
+  return () => {
+    console.log = log;
+  };
+}
+
 /**
  * Execute a command in a directory.
  * @param command Command string to execute
@@ -91,15 +103,3 @@ export function executeCommand(command: string | undefined, dir: string): void {
     logError(`Failed to execute command: ${command}`, e);
   }
 }
-
-/**
- * Get source filename for a given language.
- * @param language Language name (e.g., "cpp", "python")
- * @returns Filename (e.g., "main.cpp", "main.py")
- */
-export function getSourceFilename(language: string): string {
-  if (language === "python" || language === "py") {
-    return "main.py";
-  }
-  return "main.cpp";
-}
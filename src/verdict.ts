@@ -0,0 +1,201 @@
+import * as cheerio from "cheerio";
+import { BrowserManager } from "./browser.js";
+import { logError, logSuccess } from "./utils.js";
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_WAIT_MS = 10 * 60 * 1000;
+const PENDING_STATUSES = ["WJ", "WR", "Judging"];
+
+export interface SubmissionRow {
+  id: string;
+  taskId: string;
+  status: string;
+  execTime?: string;
+  memory?: string;
+}
+
+export interface TestCaseVerdict {
+  name: string;
+  status: string;
+  execTime: string;
+  memory: string;
+}
+
+/**
+ * Parse the "My Submissions" page and return the rows in displayed order (newest first)
+ */
+export function parseSubmissionList(html: string): SubmissionRow[] {
+  const $ = cheerio.load(html);
+  const rows: SubmissionRow[] = [];
+  $("table tbody tr").each((_, element) => {
+    const row = $(element);
+    const detailHref = row.find('a[href*="/submissions/"]').last().attr("href") ?? "";
+    const id = detailHref.match(/\/submissions\/(\d+)/)?.[1] ?? row.find("td[data-id]").attr("data-id");
+    const taskHref = row.find('a[href*="/tasks/"]').first().attr("href") ?? "";
+    const taskId = taskHref.split("/").pop() ?? "";
+    const status = row.find("td span.label").first().text().trim();
+    if (!id || !status) {
+      return;
+    }
+
+    // Exec time and memory are only shown once judging has finished
+    const cells = row.find("td.text-right");
+    const execTime = cells
+      .filter((_, td) => /ms$/.test($(td).text().trim()))
+      .first()
+      .text()
+      .trim();
+    const memory = cells
+      .filter((_, td) => /[KM]i?B$/.test($(td).text().trim()))
+      .first()
+      .text()
+      .trim();
+    rows.push({ id, taskId, status, execTime: execTime || undefined, memory: memory || undefined });
+  });
+  return rows;
+}
+
+/**
+ * Find the submission for the task made after `previousId`, which may not be listed yet right after submitting
+ */
+export function findNewSubmission(
+  rows: SubmissionRow[],
+  taskId: string,
+  previousId: string,
+): SubmissionRow | undefined {
+  return rows.find((row) => row.taskId === taskId && Number(row.id) > Number(previousId));
+}
+
+/**
+ * Parse the per-testcase table on a submission detail page
+ */
+export function parseTestCaseVerdicts(html: string): TestCaseVerdict[] {
+  const $ = cheerio.load(html);
+  const verdicts: TestCaseVerdict[] = [];
+  $("table tbody tr").each((_, element) => {
+    const cells = $(element).find("td");
+    if (cells.length !== 4) {
+      return;
+    }
+    const status = cells.eq(1).find("span.label").text().trim();
+    if (!/^[A-Z]+$/.test(status)) {
+      return;
+    }
+    verdicts.push({
+      name: cells.eq(0).text().trim(),
+      status,
+      execTime: cells.eq(2).text().trim(),
+      memory: cells.eq(3).text().trim(),
+    });
+  });
+  return verdicts;
+}
+
+/**
+ * Check whether a status label is a final verdict (e.g. AC, WA) rather than WJ or "3/10"
+ */
+export function isFinalStatus(status: string): boolean {
+  if (PENDING_STATUSES.includes(status)) {
+    return false;
+  }
+  return /^[A-Z]+$/.test(status);
+}
+
+/**
+ * Colorize a status label for the console
+ */
+export function colorizeStatus(status: string): string {
+  if (status === "AC") {
+    return `\x1b[32m${status}\x1b[0m`;
+  }
+  if (isFinalStatus(status)) {
+    return status === "CE" || status === "IE" ? `\x1b[33m${status}\x1b[0m` : `\x1b[31m${status}\x1b[0m`;
+  }
+  return `\x1b[90m${status}\x1b[0m`;
+}
+
+export class VerdictTracker {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * Get the ID of the newest submission for the task ("0" if there is none), or undefined if the list cannot be read
+   */
+  async getLatestSubmissionId(contestId: string, taskId: string): Promise<string | undefined> {
+    try {
+      const rows = await this.fetchSubmissions(contestId);
+      return rows.find((row) => row.taskId === taskId)?.id ?? "0";
+    } catch (_) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Poll "My Submissions" until a submission newer than `previousId` finishes judging,
+   * printing every status change and the per-testcase results at the end.
+   */
+  async track(contestId: string, taskId: string, previousId: string): Promise<string | undefined> {
+    const deadline = Date.now() + MAX_WAIT_MS;
+    let lastStatus = "";
+    let submission: SubmissionRow | undefined;
+    let fetchFailed = false;
+
+    while (Date.now() < deadline) {
+      try {
+        const rows = await this.fetchSubmissions(contestId);
+        submission = findNewSubmission(rows, taskId, previousId) ?? submission;
+        fetchFailed = false;
+      } catch (error) {
+        // Keep polling until the deadline, but report only the first of consecutive failures
+        if (!fetchFailed) {
+          logError("fetching submission status (retrying)", error);
+        }
+        fetchFailed = true;
+      }
+
+      if (submission && submission.status !== lastStatus) {
+        lastStatus = submission.status;
+        console.log(`# Submission ${submission.id} ... ${colorizeStatus(submission.status)}`);
+      }
+      if (submission && isFinalStatus(submission.status)) {
+        break;
+      }
+      await new Promise((_) => setTimeout(_, POLL_INTERVAL_MS));
+    }
+
+    if (!submission || !isFinalStatus(submission.status)) {
+      logError("Timed out waiting for the judge result.");
+      return undefined;
+    }
+
+    await this.showTestCases(contestId, submission);
+    return submission.status;
+  }
+
+  private async fetchSubmissions(contestId: string): Promise<SubmissionRow[]> {
+    const html = await this.browserManager.fetchRawHtml(`https://atcoder.jp/contests/${contestId}/submissions/me`);
+    return parseSubmissionList(html);
+  }
+
+  private async showTestCases(contestId: string, submission: SubmissionRow): Promise<void> {
+    const url = `https://atcoder.jp/contests/${contestId}/submissions/${submission.id}`;
+    try {
+      const verdicts = parseTestCaseVerdicts(await this.browserManager.fetchRawHtml(url));
+      for (const verdict of verdicts) {
+        console.log(`  ${verdict.name} ... ${colorizeStatus(verdict.status)} ${verdict.execTime} ${verdict.memory}`);
+      }
+    } catch (error) {
+      logError(`fetching submission detail: ${url}`, error);
+    }
+
+    const summary = [submission.execTime, submission.memory].filter(Boolean).join(" / ");
+    if (submission.status === "AC") {
+      logSuccess(`Accepted!!! ${summary}`);
+    } else {
+      logError(`${submission.status} ${summary}`.trim());
+    }
+  }
+}